@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Download, KeyRound, Plus, Trash2, X } from "lucide-react";
+import { useApiKeys } from "../hooks/use-api-keys";
+import { useToast } from "../hooks/use-toast";
+import { downloadUploaderConfig, type UploaderTool } from "../lib/api";
+import { getErrorMessage } from "../lib/queryClient";
+import { type ApiKeyScope } from "../types/auth";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  upload: "Upload",
+  delete: "Delete",
+  list: "List",
+};
+
+// Matches the server's default and cap for per-key uploads per hour
+const DEFAULT_UPLOAD_LIMIT = 100;
+const MAX_UPLOAD_LIMIT = 1000;
+
+export function ApiKeysCard() {
+  const { keys, isLoading, createdKey, dismissCreatedKey, createMutation, revokeMutation } = useApiKeys();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["upload"]);
+  const [uploadLimit, setUploadLimit] = useState(String(DEFAULT_UPLOAD_LIMIT));
+  const { toast } = useToast();
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope],
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(
+      { name, scopes, uploadLimit: Number(uploadLimit) },
+      { onSuccess: () => setName("") },
+    );
+  };
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast({
+        title: "Copied!",
+        description: "API key copied to clipboard",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy failed",
+        description: "Unable to copy to clipboard",
+      });
+    }
+  };
+
+  const downloadConfig = async (tool: UploaderTool, key: string) => {
+    try {
+      await downloadUploaderConfig(tool, key);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: error instanceof Error ? getErrorMessage(error) : "Please try again",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border rounded-xl p-6 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-card-foreground flex items-center">
+          <KeyRound className="mr-2 w-5 h-5" />
+          API Keys
+        </h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          For scripts and tools. Send the key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>;
+          uploads made with it are yours and count against the key's own hourly limit.
+        </p>
+      </div>
+
+      {createdKey && (
+        <div className="rounded-lg border border-primary/50 bg-primary/5 p-4 space-y-2" data-testid="panel-created-key">
+          <div className="flex items-start justify-between">
+            <p className="text-sm font-medium text-card-foreground">
+              Copy "{createdKey.name}" now. It won't be shown again.
+            </p>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={dismissCreatedKey} aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex">
+            <Input
+              value={createdKey.key}
+              readOnly
+              className="flex-1 bg-input border border-border rounded-l-lg font-mono text-sm"
+              data-testid="input-created-key"
+            />
+            <Button
+              onClick={() => copyKey(createdKey.key)}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-l-none"
+              aria-label="Copy API key"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <pre className="text-xs font-mono text-muted-foreground whitespace-pre-wrap break-all">
+            curl -H "Authorization: Bearer {createdKey.key}" -F image=@photo.png {window.location.origin}/api/upload
+          </pre>
+          {/* Configs embed the key, so they can only be fetched while it's still on screen */}
+          {createdKey.scopes.includes("upload") && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadConfig("sharex", createdKey.key)}
+                data-testid="button-download-sharex"
+              >
+                <Download className="mr-2 w-4 h-4" />
+                ShareX Config
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadConfig("flameshot", createdKey.key)}
+                data-testid="button-download-flameshot"
+              >
+                <Download className="mr-2 w-4 h-4" />
+                Flameshot Script
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {keys.length > 0 && (
+        <Table data-testid="table-api-keys">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead className="hidden sm:table-cell">Uploads / hour</TableHead>
+              <TableHead className="hidden md:table-cell">Last used</TableHead>
+              <TableHead className="w-12">
+                <span className="sr-only">Revoke</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.map((key) => (
+              <TableRow key={key.id}>
+                <TableCell className="font-medium">{key.name}</TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{key.prefix}…</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {key.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="text-xs">
+                        {SCOPE_LABELS[scope]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="hidden sm:table-cell text-muted-foreground">{key.uploadLimit}</TableCell>
+                <TableCell className="hidden md:table-cell text-muted-foreground">
+                  {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "Never"}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(key.id)}
+                    disabled={revokeMutation.isPending}
+                    aria-label={`Revoke ${key.name}`}
+                    className="text-destructive hover:text-destructive"
+                    data-testid={`button-revoke-${key.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {!isLoading && keys.length === 0 && !createdKey && (
+        <p className="text-sm text-muted-foreground">You don't have any API keys yet.</p>
+      )}
+
+      <form className="grid gap-4 sm:grid-cols-[1fr_auto_auto] sm:items-end" onSubmit={handleCreate}>
+        <div className="space-y-2">
+          <Label htmlFor="api-key-name">Name</Label>
+          <Input
+            id="api-key-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. CI screenshots"
+            maxLength={100}
+            required
+            data-testid="input-api-key-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="api-key-limit">Uploads / hour</Label>
+          <Input
+            id="api-key-limit"
+            type="number"
+            min={1}
+            max={MAX_UPLOAD_LIMIT}
+            value={uploadLimit}
+            onChange={(e) => setUploadLimit(e.target.value)}
+            className="w-28"
+            required
+            data-testid="input-api-key-limit"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          disabled={createMutation.isPending || scopes.length === 0}
+          data-testid="button-create-api-key"
+        >
+          <Plus className="mr-2 w-4 h-4" />
+          Create Key
+        </Button>
+        <div className="flex flex-wrap gap-4 sm:col-span-3">
+          {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-card-foreground">
+              <Checkbox
+                checked={scopes.includes(scope)}
+                onCheckedChange={() => toggleScope(scope)}
+                data-testid={`checkbox-scope-${scope}`}
+              />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Copy, ExternalLink, Plus, RotateCcw, AlertTriangle, Trash2 } from "lucide-react";
+import { type QueueItem, type CopyFormats, type AlbumResult } from "../types/upload";
+import { generateCopyFormats } from "../lib/api";
+
+interface BatchResultProps {
+  items: QueueItem[];
+  album: AlbumResult | null;
+  onCopy: (text: string, label: string) => void;
+  onRetryFailed: () => void;
+  onUploadAnother: () => void;
+}
+
+const FORMAT_LABELS: Record<keyof CopyFormats, string> = {
+  direct: "Direct Links",
+  short: "Short Links",
+  markdown: "Markdown",
+  html: "HTML",
+  bbcode: "BBCode",
+};
+
+export function BatchResult({ items, album, onCopy, onRetryFailed, onUploadAnother }: BatchResultProps) {
+  const uploaded = items.filter((item) => item.result);
+  const failed = items.filter((item) => item.status === "error");
+
+  const handleCopyAll = (format: keyof CopyFormats) => {
+    const links = uploaded
+      .map((item) => generateCopyFormats(item.result!)[format])
+      .join("\n");
+    onCopy(links, `All ${FORMAT_LABELS[format]}`);
+  };
+
+  return (
+    <Card className="bg-card border border-border rounded-xl p-6 shadow-sm fade-in">
+      <div className="flex items-center mb-6">
+        <div className="w-12 h-12 bg-chart-2/10 rounded-full flex items-center justify-center mr-4">
+          <CheckCircle className="text-2xl text-chart-2 w-6 h-6" />
+        </div>
+        <div>
+          <h4 className="text-xl font-semibold text-card-foreground">
+            {uploaded.length} of {items.length} Images Uploaded
+          </h4>
+          <p className="text-muted-foreground">
+            {failed.length > 0 ? "Some images could not be uploaded" : "Your images are ready to share"}
+          </p>
+        </div>
+      </div>
+
+      {album && (
+        <div className="space-y-4 mb-6">
+          {/* Album Link */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-card-foreground">Album Link</Label>
+            <div className="flex">
+              <Input
+                value={album.url}
+                readOnly
+                className="flex-1 bg-input border border-border rounded-l-lg font-mono text-sm"
+                data-testid="input-album-link"
+              />
+              <Button
+                onClick={() => onCopy(album.url, "Album link")}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-l-none"
+                aria-label="Copy album link"
+                data-testid="button-copy-album"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Album Delete Link */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-card-foreground flex items-center">
+              <Trash2 className="mr-1 w-4 h-4 text-destructive" />
+              Album Delete Link
+            </Label>
+            <div className="flex">
+              <Input
+                value={album.deleteUrl}
+                readOnly
+                className="flex-1 bg-input border border-border rounded-l-lg font-mono text-sm"
+                data-testid="input-album-delete-link"
+              />
+              <Button
+                onClick={() => onCopy(album.deleteUrl, "Album delete link")}
+                variant="outline"
+                className="rounded-l-none"
+                aria-label="Copy album delete link"
+                data-testid="button-copy-album-delete"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keep this link private. It deletes the album and lets you add more images to it.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Copy all links, one per line, in each format */}
+      <div className="mb-6">
+        <p className="text-sm font-medium text-card-foreground mb-2">Copy all links</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(FORMAT_LABELS) as (keyof CopyFormats)[]).map((format) => (
+            <Button
+              key={format}
+              onClick={() => handleCopyAll(format)}
+              variant="outline"
+              size="sm"
+              data-testid={`button-copy-all-${format}`}
+            >
+              <Copy className="mr-2 w-3 h-3" />
+              {FORMAT_LABELS[format]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ul className="space-y-3 mb-6" data-testid="list-batch-results">
+        {uploaded.map((item) => (
+          <li key={item.id} className="flex items-center gap-4 p-3 rounded-lg border border-border bg-muted/40">
+            <div className="w-14 h-14 bg-muted rounded-md overflow-hidden flex items-center justify-center flex-shrink-0">
+              <img src={item.preview} alt={item.file.name} className="max-w-full max-h-full object-contain" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-card-foreground truncate">{item.file.name}</p>
+              <p className="text-xs font-mono text-muted-foreground truncate">{item.result!.shortUrl}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onCopy(item.result!.shortUrl, "Short link")}
+              aria-label={`Copy short link for ${item.file.name}`}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => window.open(item.result!.shortUrl, "_blank", "noopener,noreferrer")}
+              aria-label={`Open ${item.file.name}`}
+            >
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+        {failed.map((item) => (
+          <li key={item.id} className="flex items-center gap-4 p-3 rounded-lg border border-destructive/50 bg-destructive/5">
+            <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-card-foreground truncate">{item.file.name}</p>
+              <p className="text-xs text-destructive" data-testid="text-item-error">{item.error}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {/* Action Buttons */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        {failed.length > 0 && (
+          <Button
+            onClick={onRetryFailed}
+            className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground"
+            data-testid="button-retry-failed"
+          >
+            <RotateCcw className="mr-2 w-4 h-4" />
+            Retry {failed.length} Failed
+          </Button>
+        )}
+        <Button
+          onClick={onUploadAnother}
+          className="flex-1 bg-secondary hover:bg-secondary/90 text-secondary-foreground"
+          data-testid="button-upload-another"
+        >
+          <Plus className="mr-2 w-4 h-4" />
+          Upload More
+        </Button>
+      </div>
+    </Card>
+  );
+}
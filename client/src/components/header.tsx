@@ -1,15 +1,19 @@
+import { Link } from "wouter";
 import { useTheme } from "../hooks/use-theme";
+import { useAuth } from "../hooks/use-auth";
+import { UploadHistory } from "./upload-history";
 import { Button } from "@/components/ui/button";
-import { Moon, Sun, Image } from "lucide-react";
+import { Moon, Sun, Image, LogIn, LogOut, LayoutGrid } from "lucide-react";
 
 export function Header() {
   const { theme, toggleTheme } = useTheme();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <header className="border-b border-border bg-card">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <div className="flex items-center space-x-3">
+          <Link href="/" className="flex items-center space-x-3">
             <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
               <Image className="text-primary-foreground text-xl w-6 h-6" />
             </div>
@@ -17,8 +21,39 @@ export function Header() {
               <h1 className="text-2xl font-bold text-card-foreground">PicLink</h1>
               <p className="text-xs text-muted-foreground">Simple Image Hosting</p>
             </div>
-          </div>
+          </Link>
           <div className="flex items-center space-x-4">
+            <UploadHistory />
+            {user ? (
+              <>
+                <span className="hidden sm:inline text-sm text-muted-foreground" data-testid="text-username">
+                  {user.username}
+                </span>
+                <Button variant="ghost" size="sm" asChild data-testid="link-dashboard">
+                  <Link href="/dashboard">
+                    <LayoutGrid className="mr-2 h-4 w-4" />
+                    My Uploads
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  data-testid="button-logout"
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Log Out
+                </Button>
+              </>
+            ) : (
+              <Button variant="ghost" size="sm" asChild data-testid="link-login">
+                <Link href="/auth">
+                  <LogIn className="mr-2 h-4 w-4" />
+                  Log In
+                </Link>
+              </Button>
+            )}
             <Button
               variant="outline"
               size="icon"
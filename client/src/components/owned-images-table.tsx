@@ -0,0 +1,155 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Copy, ExternalLink, Lock, MoreHorizontal, Timer, Trash2 } from "lucide-react";
+import { type CopyFormats, type OwnedImage } from "../types/upload";
+import { formatFileSize } from "../lib/api";
+
+interface OwnedImagesTableProps {
+  images: OwnedImage[];
+  selected: Set<string>;
+  onToggle: (id: string) => void;
+  onToggleAll: () => void;
+  onCopy: (images: OwnedImage[], format: keyof CopyFormats, label: string) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+export function OwnedImagesTable({ images, selected, onToggle, onToggleAll, onCopy, onDelete }: OwnedImagesTableProps) {
+  const allSelected = images.length > 0 && selected.size === images.length;
+
+  return (
+    <Table data-testid="table-owned-images">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">
+            <Checkbox
+              checked={allSelected ? true : selected.size > 0 ? "indeterminate" : false}
+              onCheckedChange={onToggleAll}
+              aria-label="Select all images on this page"
+              data-testid="checkbox-select-all"
+            />
+          </TableHead>
+          <TableHead className="w-20">Preview</TableHead>
+          <TableHead>Image</TableHead>
+          <TableHead className="hidden md:table-cell">Size</TableHead>
+          <TableHead className="hidden md:table-cell">Type</TableHead>
+          <TableHead className="hidden lg:table-cell">Dimensions</TableHead>
+          <TableHead className="hidden sm:table-cell">Uploaded</TableHead>
+          <TableHead className="w-12">
+            <span className="sr-only">Actions</span>
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {images.map((image) => (
+          <TableRow
+            key={image.id}
+            data-state={selected.has(image.id) ? "selected" : undefined}
+            data-testid={`row-image-${image.id}`}
+          >
+            <TableCell>
+              <Checkbox
+                checked={selected.has(image.id)}
+                onCheckedChange={() => onToggle(image.id)}
+                aria-label={`Select ${image.id}`}
+              />
+            </TableCell>
+            <TableCell>
+              {/* Thumbnails skip the password and view limit for the owner */}
+              <a href={image.shortUrl} target="_blank" rel="noopener noreferrer">
+                <div className="w-14 h-14 bg-muted rounded-md overflow-hidden flex items-center justify-center">
+                  <img
+                    src={`/t/${image.id}`}
+                    alt={image.id}
+                    loading="lazy"
+                    className="max-w-full max-h-full object-contain"
+                  />
+                </div>
+              </a>
+            </TableCell>
+            <TableCell>
+              <p className="font-mono text-sm text-card-foreground">{image.id}</p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {image.passwordProtected && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Lock className="mr-1 w-3 h-3" />
+                    Password
+                  </Badge>
+                )}
+                {image.maxViews !== null && (
+                  <Badge variant="secondary" className="text-xs">
+                    {image.maxViews} {image.maxViews === 1 ? "view" : "views"}
+                  </Badge>
+                )}
+                {image.expiresAt && (
+                  <Badge variant="secondary" className="text-xs" title={new Date(image.expiresAt).toLocaleString()}>
+                    <Timer className="mr-1 w-3 h-3" />
+                    Expires
+                  </Badge>
+                )}
+              </div>
+            </TableCell>
+            <TableCell className="hidden md:table-cell text-muted-foreground">{formatFileSize(image.size)}</TableCell>
+            <TableCell className="hidden md:table-cell text-muted-foreground">{image.mime}</TableCell>
+            <TableCell className="hidden lg:table-cell text-muted-foreground">
+              {image.width && image.height ? `${image.width} × ${image.height}` : "—"}
+            </TableCell>
+            <TableCell className="hidden sm:table-cell text-muted-foreground">
+              {image.createdAt ? new Date(image.createdAt).toLocaleString() : "—"}
+            </TableCell>
+            <TableCell>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label={`Actions for ${image.id}`} data-testid={`button-actions-${image.id}`}>
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => onCopy([image], "short", "Short link")}>
+                    <Copy className="mr-2 w-4 h-4" />
+                    Copy Short Link
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => onCopy([image], "direct", "Direct link")}>
+                    <Copy className="mr-2 w-4 h-4" />
+                    Copy Direct Link
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => onCopy([image], "markdown", "Markdown")}>
+                    <Copy className="mr-2 w-4 h-4" />
+                    Copy Markdown
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => window.open(image.shortUrl, "_blank", "noopener,noreferrer")}>
+                    <ExternalLink className="mr-2 w-4 h-4" />
+                    Open
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => onDelete([image.id])}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 w-4 h-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
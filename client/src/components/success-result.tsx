@@ -1,19 +1,56 @@
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { CheckCircle, Copy, ExternalLink, Plus, Clipboard } from "lucide-react";
-import { type UploadResult, type CopyFormats } from "../types/upload";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Copy, ExternalLink, Plus, Clipboard, Trash2, Clock, Eye, Lock } from "lucide-react";
+import { type UploadResult, type CopyFormats, type ExpiryOption, type ImageSettings } from "../types/upload";
 import { generateCopyFormats } from "../lib/api";
 
+const EXPIRY_LABELS: Record<ExpiryOption, string> = {
+  "1h": "1 hour",
+  "1d": "1 day",
+  "1w": "1 week",
+  never: "Never",
+};
+
+// View limits offered in the UI; the API takes any number up to 1000
+const VIEW_LIMITS = ["unlimited", "1", "5", "10", "50"];
+
 interface SuccessResultProps {
   result: UploadResult;
   onCopy: (text: string, label: string) => void;
+  onSettingsChange: (settings: ImageSettings) => Promise<void>;
   onUploadAnother: () => void;
 }
 
-export function SuccessResult({ result, onCopy, onUploadAnother }: SuccessResultProps) {
+export function SuccessResult({ result, onCopy, onSettingsChange, onUploadAnother }: SuccessResultProps) {
   const formats = generateCopyFormats(result);
+  const [expiry, setExpiry] = useState<ExpiryOption | undefined>(result.expiresAt ? undefined : "never");
+  const [updating, setUpdating] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const updateSettings = async (settings: ImageSettings) => {
+    setUpdating(true);
+    await onSettingsChange(settings);
+    setUpdating(false);
+  };
+
+  const handleExpiryChange = (value: string) => {
+    setExpiry(value as ExpiryOption);
+    updateSettings({ expiresIn: value as ExpiryOption });
+  };
+
+  const handleViewLimitChange = (value: string) => {
+    updateSettings({ maxViews: value === "unlimited" ? null : Number(value) });
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await updateSettings({ password: result.passwordProtected ? null : password });
+    setPassword("");
+  };
 
   const handleOpenImage = () => {
     window.open(result.shortUrl, "_blank", "noopener,noreferrer");
@@ -149,6 +186,134 @@ export function SuccessResult({ result, onCopy, onUploadAnother }: SuccessResult
             </Button>
           </div>
         </div>
+
+        {/* Expiry */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-card-foreground flex items-center">
+            <Clock className="mr-1 w-4 h-4" />
+            Delete After
+          </Label>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <Select value={expiry} onValueChange={handleExpiryChange} disabled={updating}>
+              <SelectTrigger className="sm:w-40" data-testid="select-expiry">
+                <SelectValue placeholder="Change" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPIRY_LABELS) as ExpiryOption[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {EXPIRY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground" data-testid="text-expiry">
+              {result.expiresAt
+                ? `Expires ${new Date(result.expiresAt).toLocaleString()}`
+                : "Kept until you delete it"}
+            </p>
+          </div>
+        </div>
+
+        {/* View Limit */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-card-foreground flex items-center">
+            <Eye className="mr-1 w-4 h-4" />
+            View Limit
+          </Label>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <Select
+              value={result.maxViews === null ? "unlimited" : String(result.maxViews)}
+              onValueChange={handleViewLimitChange}
+              disabled={updating}
+            >
+              <SelectTrigger className="sm:w-40" data-testid="select-view-limit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIEW_LIMITS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option === "unlimited" ? "Unlimited" : option === "1" ? "1 view" : `${option} views`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground" data-testid="text-view-limit">
+              {result.maxViews === 1
+                ? "Deleted after it is viewed once"
+                : result.maxViews
+                  ? `Deleted after ${result.maxViews} views`
+                  : "Anyone with the link can view it"}
+            </p>
+          </div>
+        </div>
+
+        {/* Password */}
+        <form className="space-y-2" onSubmit={handlePasswordSubmit}>
+          <Label className="text-sm font-medium text-card-foreground flex items-center">
+            <Lock className="mr-1 w-4 h-4" />
+            Password
+          </Label>
+          {result.passwordProtected ? (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="flex-1 text-sm text-muted-foreground" data-testid="text-password">
+                Viewers must enter the password to see this image.
+              </p>
+              <Button type="submit" variant="outline" disabled={updating} data-testid="button-remove-password">
+                Remove Password
+              </Button>
+            </div>
+          ) : (
+            <div className="flex">
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Optional: require a password to view"
+                maxLength={200}
+                autoComplete="new-password"
+                className="flex-1 bg-input border border-border rounded-l-lg text-sm"
+                data-testid="input-password"
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                className="rounded-l-none"
+                disabled={updating || password.length === 0}
+                data-testid="button-set-password"
+              >
+                Set
+              </Button>
+            </div>
+          )}
+        </form>
+
+        {/* Delete Link */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-card-foreground flex items-center">
+            <Trash2 className="mr-1 w-4 h-4 text-destructive" />
+            Delete Link
+          </Label>
+          <div className="flex">
+            <Input
+              value={result.deleteUrl}
+              readOnly
+              className="flex-1 bg-input border border-border rounded-l-lg font-mono text-sm"
+              data-testid="input-delete-link"
+            />
+            <Button
+              onClick={() => onCopy(result.deleteUrl, "Delete link")}
+              variant="outline"
+              className="rounded-l-none"
+              aria-label="Copy delete link"
+              data-testid="button-copy-delete"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Keep this link private. Anyone who has it can delete the image.
+          </p>
+        </div>
       </div>
 
       {/* Action Buttons */}
@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Download, ExternalLink, Eye, History, Lock, Trash2, Upload } from "lucide-react";
+import { useUploadHistory } from "../hooks/use-upload-history";
+import { useToast } from "../hooks/use-toast";
+import { formatFileSize } from "../lib/api";
+import { type HistoryEntry } from "../types/upload";
+
+type PendingAction = { type: "delete"; entry: HistoryEntry } | { type: "clear" };
+
+export function UploadHistory() {
+  const { entries, deleteUpload, clearHistory, exportHistory, importHistory } = useUploadHistory();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const copyLink = async (entry: HistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.shortUrl);
+      toast({
+        title: "Copied!",
+        description: "Short link copied to clipboard",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy failed",
+        description: "Unable to copy to clipboard",
+      });
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importHistory(file);
+    }
+    // Reset so the same file can be picked again
+    e.target.value = "";
+  };
+
+  const confirmPending = () => {
+    if (pending?.type === "delete") {
+      deleteUpload(pending.entry);
+    } else if (pending?.type === "clear") {
+      clearHistory();
+    }
+    setPending(null);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" data-testid="button-history">
+          <History className="mr-2 h-4 w-4" />
+          History
+          {entries.length > 0 && (
+            <span className="ml-1 text-xs text-muted-foreground">({entries.length})</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Upload History</SheetTitle>
+          <SheetDescription>
+            Uploads made in this browser, kept only on this device. Export it to keep your delete links when you switch browsers.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12" data-testid="text-history-empty">
+              Nothing here yet. Uploads you make will show up here.
+            </p>
+          ) : (
+            <ul className="space-y-3 py-4" data-testid="list-history">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-3 p-3 rounded-lg border border-border bg-muted/40">
+                  <div className="w-12 h-12 bg-muted rounded-md overflow-hidden flex items-center justify-center flex-shrink-0">
+                    {/* Loading a thumbnail would count as a view or need the password */}
+                    {entry.passwordProtected ? (
+                      <Lock className="w-5 h-5 text-muted-foreground" />
+                    ) : entry.maxViews !== null ? (
+                      <Eye className="w-5 h-5 text-muted-foreground" />
+                    ) : (
+                      <img
+                        src={`/t/${entry.id}`}
+                        alt={entry.id}
+                        loading="lazy"
+                        className="max-w-full max-h-full object-contain"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-mono text-card-foreground truncate">{entry.shortUrl}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(entry.size)} • {new Date(entry.uploadedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => copyLink(entry)}
+                    aria-label={`Copy short link for ${entry.id}`}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => window.open(entry.shortUrl, "_blank", "noopener,noreferrer")}
+                    aria-label={`Open ${entry.id}`}
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPending({ type: "delete", entry })}
+                    aria-label={`Delete ${entry.id}`}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <SheetFooter className="flex-row flex-wrap gap-2 sm:justify-start sm:space-x-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportHistory}
+            disabled={entries.length === 0}
+            data-testid="button-export-history"
+          >
+            <Download className="mr-2 w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => importRef.current?.click()}
+            data-testid="button-import-history"
+          >
+            <Upload className="mr-2 w-4 h-4" />
+            Import
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setPending({ type: "clear" })}
+            disabled={entries.length === 0}
+            className="ml-auto"
+            data-testid="button-clear-history"
+          >
+            Clear
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+            data-testid="input-import-history"
+          />
+        </SheetFooter>
+
+        <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {pending?.type === "clear" ? "Clear upload history?" : "Delete this image?"}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {pending?.type === "clear"
+                  ? "Your images stay online, but their delete links are forgotten unless you've exported them."
+                  : "The image is removed for good and its links stop working."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={confirmPending}
+                className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+                data-testid="button-confirm-history-action"
+              >
+                {pending?.type === "clear" ? "Clear" : "Delete"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+}
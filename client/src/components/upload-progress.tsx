@@ -1,31 +1,52 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Loader2 } from "lucide-react";
+import { Loader2, Pause, Play } from "lucide-react";
 
 interface UploadProgressProps {
   progress: number;
+  paused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
   onCancel?: () => void;
 }
 
-export function UploadProgress({ progress, onCancel }: UploadProgressProps) {
+export function UploadProgress({ progress, paused = false, onPause, onResume, onCancel }: UploadProgressProps) {
   return (
     <Card className="bg-card border border-border rounded-xl p-6 shadow-sm fade-in">
       <div className="flex items-center justify-between mb-4">
         <h4 className="text-lg font-semibold text-card-foreground flex items-center">
-          <Loader2 className="mr-2 w-5 h-5 animate-spin" />
-          Uploading Image...
+          {paused ? (
+            <Pause className="mr-2 w-5 h-5" />
+          ) : (
+            <Loader2 className="mr-2 w-5 h-5 animate-spin" />
+          )}
+          {paused ? "Upload Paused" : "Uploading Image..."}
         </h4>
-        {onCancel && (
-          <Button
-            variant="ghost"
-            onClick={onCancel}
-            className="text-destructive hover:text-destructive/80"
-            data-testid="button-cancel-upload"
-          >
-            Cancel
-          </Button>
-        )}
+        <div className="flex gap-2">
+          {paused && onResume && (
+            <Button variant="ghost" onClick={onResume} data-testid="button-resume-upload">
+              <Play className="mr-2 w-4 h-4" />
+              Resume
+            </Button>
+          )}
+          {!paused && onPause && (
+            <Button variant="ghost" onClick={onPause} data-testid="button-pause-upload">
+              <Pause className="mr-2 w-4 h-4" />
+              Pause
+            </Button>
+          )}
+          {onCancel && (
+            <Button
+              variant="ghost"
+              onClick={onCancel}
+              className="text-destructive hover:text-destructive/80"
+              data-testid="button-cancel-upload"
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
       </div>
 
       <div className="space-y-4">
@@ -38,7 +59,7 @@ export function UploadProgress({ progress, onCancel }: UploadProgressProps) {
 
         <div className="flex justify-between text-sm">
           <span className="text-muted-foreground" data-testid="text-upload-status">
-            Uploading... {Math.round(progress)}%
+            {paused ? "Paused at" : "Uploading..."} {Math.round(progress)}%
           </span>
         </div>
       </div>
@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Upload, X, Plus, Loader2, CheckCircle, AlertTriangle, Images, Pause, Play } from "lucide-react";
+import { type QueueItem, type AlbumChoice } from "../types/upload";
+import { formatFileSize } from "../lib/api";
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  uploading: boolean;
+  paused?: boolean;
+  onUpload: (albumChoice: AlbumChoice) => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onRemove: (id: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onCancel: () => void;
+}
+
+export function UploadQueue({
+  items,
+  uploading,
+  paused = false,
+  onUpload,
+  onPause,
+  onResume,
+  onRemove,
+  onAddFiles,
+  onCancel,
+}: UploadQueueProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [albumMode, setAlbumMode] = useState<AlbumChoice["mode"]>("none");
+  const [albumTitle, setAlbumTitle] = useState("");
+  const [albumLink, setAlbumLink] = useState("");
+  const done = items.filter((item) => item.status === "success").length;
+  // A paused batch keeps its album and files until it's resumed or cancelled
+  const busy = uploading || paused;
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      onAddFiles(Array.from(files));
+    }
+    e.target.value = "";
+  };
+
+  const handleUpload = () => {
+    if (albumMode === "new") {
+      onUpload({ mode: "new", title: albumTitle });
+    } else if (albumMode === "existing") {
+      onUpload({ mode: "existing", link: albumLink });
+    } else {
+      onUpload({ mode: "none" });
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border rounded-xl p-6 shadow-sm fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-card-foreground flex items-center">
+          {uploading && <Loader2 className="mr-2 w-5 h-5 animate-spin" />}
+          {paused && <Pause className="mr-2 w-5 h-5" />}
+          {!busy && <Images className="mr-2 w-5 h-5" />}
+          {uploading && `Uploading ${done} of ${items.length}...`}
+          {paused && `Paused, ${done} of ${items.length} uploaded`}
+          {!busy && `${items.length} Images Selected`}
+        </h4>
+        {busy && (
+          <div className="flex gap-2">
+            {paused && onResume && (
+              <Button variant="ghost" onClick={onResume} data-testid="button-resume-upload">
+                <Play className="mr-2 w-4 h-4" />
+                Resume
+              </Button>
+            )}
+            {uploading && onPause && (
+              <Button variant="ghost" onClick={onPause} data-testid="button-pause-upload">
+                <Pause className="mr-2 w-4 h-4" />
+                Pause
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              onClick={onCancel}
+              className="text-destructive hover:text-destructive/80"
+              data-testid="button-cancel-upload"
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ul className="space-y-3 mb-6" data-testid="list-upload-queue">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-4 p-3 rounded-lg border border-border bg-muted/40"
+            data-testid={`queue-item-${item.id}`}
+          >
+            <div className="w-14 h-14 bg-muted rounded-md overflow-hidden flex items-center justify-center flex-shrink-0">
+              <img src={item.preview} alt={item.file.name} className="max-w-full max-h-full object-contain" />
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex justify-between gap-2 text-sm">
+                <span className="font-medium text-card-foreground truncate">{item.file.name}</span>
+                <span className="text-muted-foreground flex-shrink-0">{formatFileSize(item.file.size)}</span>
+              </div>
+              {item.status === "error" ? (
+                <p className="text-xs text-destructive flex items-center" data-testid="text-item-error">
+                  <AlertTriangle className="mr-1 w-3 h-3 flex-shrink-0" />
+                  {item.error}
+                </p>
+              ) : (
+                <Progress value={item.progress} className="h-2" aria-label={`Upload progress for ${item.file.name}`} />
+              )}
+            </div>
+            <div className="w-8 flex justify-center flex-shrink-0">
+              {item.status === "success" && <CheckCircle className="w-5 h-5 text-chart-2" />}
+              {item.status === "uploading" && <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />}
+              {item.status === "paused" && <Pause className="w-5 h-5 text-muted-foreground" />}
+              {!busy && item.status !== "success" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRemove(item.id)}
+                  aria-label={`Remove ${item.file.name}`}
+                  data-testid="button-remove-item"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!busy && (
+        <div className="space-y-3 mb-6">
+          <Label className="text-sm font-medium text-card-foreground">Album</Label>
+          <RadioGroup
+            value={albumMode}
+            onValueChange={(value) => setAlbumMode(value as AlbumChoice["mode"])}
+            className="flex flex-wrap gap-4"
+            data-testid="radio-album-mode"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="none" id="album-none" />
+              <Label htmlFor="album-none">Separate images</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="new" id="album-new" />
+              <Label htmlFor="album-new">New album</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="existing" id="album-existing" />
+              <Label htmlFor="album-existing">Existing album</Label>
+            </div>
+          </RadioGroup>
+          {albumMode === "new" && (
+            <Input
+              value={albumTitle}
+              onChange={(e) => setAlbumTitle(e.target.value)}
+              placeholder="Album title (optional)"
+              maxLength={100}
+              className="bg-input border border-border"
+              data-testid="input-album-title"
+            />
+          )}
+          {albumMode === "existing" && (
+            <Input
+              value={albumLink}
+              onChange={(e) => setAlbumLink(e.target.value)}
+              placeholder="Paste the album's delete link"
+              className="bg-input border border-border font-mono text-sm"
+              data-testid="input-album-link"
+            />
+          )}
+        </div>
+      )}
+
+      {!busy && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            onClick={handleUpload}
+            className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground"
+            data-testid="button-upload-all"
+          >
+            <Upload className="mr-2 w-4 h-4" />
+            Upload {items.length} Images
+          </Button>
+          <Button
+            onClick={() => inputRef.current?.click()}
+            variant="outline"
+            className="border border-border hover:bg-accent text-card-foreground"
+            data-testid="button-add-files"
+          >
+            <Plus className="mr-2 w-4 h-4" />
+            Add Files
+          </Button>
+          <Button
+            onClick={onCancel}
+            variant="outline"
+            className="border border-border hover:bg-accent text-card-foreground"
+            data-testid="button-cancel-queue"
+          >
+            <X className="mr-2 w-4 h-4" />
+            Cancel
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/jpg,image/webp,image/gif,image/apng"
+            multiple
+            className="hidden"
+            onChange={handleFileInput}
+            data-testid="input-add-files"
+          />
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -5,20 +5,20 @@ import { CloudUpload, FolderOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface UploadZoneProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   disabled?: boolean;
 }
 
-export function UploadZone({ onFileSelect, disabled = false }: UploadZoneProps) {
+export function UploadZone({ onFilesSelect, disabled = false }: UploadZoneProps) {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     if (disabled) return;
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      onFileSelect(files[0]);
+      onFilesSelect(files);
     }
-  }, [onFileSelect, disabled]);
+  }, [onFilesSelect, disabled]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -27,11 +27,11 @@ export function UploadZone({ onFileSelect, disabled = false }: UploadZoneProps)
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      onFileSelect(files[0]);
+      onFilesSelect(Array.from(files));
     }
     // Reset input value to allow selecting same file again
     e.target.value = "";
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
   const handleClick = useCallback(() => {
     if (disabled) return;
@@ -50,16 +50,17 @@ export function UploadZone({ onFileSelect, disabled = false }: UploadZoneProps)
   const handlePaste = useCallback((e: React.ClipboardEvent) => {
     if (disabled) return;
     
-    const items = Array.from(e.clipboardData.items);
-    const imageItem = items.find(item => item.type.startsWith('image/'));
+    const files = Array.from(e.clipboardData.items)
+      .filter(item => item.type.startsWith('image/'))
+      .map(item => item.getAsFile())
+      .filter((file): file is File => file !== null);
     
-    if (imageItem) {
-      const file = imageItem.getAsFile();
-      if (file) {
-        onFileSelect(file);
-      }
+    if (files.length > 0) {
+      // Home also listens for paste on the document; don't queue the files twice
+      e.stopPropagation();
+      onFilesSelect(files);
     }
-  }, [onFileSelect, disabled]);
+  }, [onFilesSelect, disabled]);
 
   return (
     <Card className="bg-card border border-border rounded-xl p-8 shadow-sm">
@@ -100,7 +101,7 @@ export function UploadZone({ onFileSelect, disabled = false }: UploadZoneProps)
             </Button>
           </div>
           <p className="text-sm text-muted-foreground">
-            Supports: PNG, JPG, JPEG, WebP, GIF • Max size: 10MB
+            Supports: PNG, JPG, JPEG, WebP, GIF • Max size: 10MB per image
           </p>
         </div>
       </div>
@@ -108,7 +109,8 @@ export function UploadZone({ onFileSelect, disabled = false }: UploadZoneProps)
       <input
         type="file"
         id="file-input"
-        accept="image/png,image/jpeg,image/jpg,image/webp,image/gif"
+        accept="image/png,image/jpeg,image/jpg,image/webp,image/gif,image/apng"
+        multiple
         className="hidden"
         onChange={handleFileInput}
         data-testid="input-file"
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Globe } from "lucide-react";
+import { isHttpUrl } from "../lib/api";
+
+interface UrlUploadFormProps {
+  onUrlSubmit: (url: string) => void;
+  disabled?: boolean;
+}
+
+export function UrlUploadForm({ onUrlSubmit, disabled = false }: UrlUploadFormProps) {
+  const [url, setUrl] = useState("");
+  const valid = isHttpUrl(url);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid || disabled) return;
+    onUrlSubmit(url.trim());
+  };
+
+  return (
+    <Card className="bg-card border border-border rounded-xl p-4 shadow-sm">
+      <form className="flex gap-2" onSubmit={handleSubmit}>
+        <div className="relative flex-1">
+          <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            // Keep Home's document-level paste handler from treating this as an image paste
+            onPaste={(e) => e.stopPropagation()}
+            placeholder="Or paste an image URL"
+            className="pl-9 bg-input border border-border"
+            aria-label="Image URL"
+            disabled={disabled}
+            data-testid="input-image-url"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          disabled={!valid || disabled}
+          data-testid="button-upload-url"
+        >
+          Upload
+        </Button>
+      </form>
+    </Card>
+  );
+}
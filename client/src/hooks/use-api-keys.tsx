@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getErrorMessage, queryClient } from "../lib/queryClient";
+import { type ApiKey, type CreatedApiKey, type NewApiKey } from "../types/auth";
+import { useToast } from "./use-toast";
+
+const API_KEYS_QUERY_KEY = ["/api/keys"];
+
+export function useApiKeys() {
+  const { toast } = useToast();
+  // The full key of the one just created; the server never returns it again
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const { data: keys, isLoading } = useQuery<ApiKey[]>({
+    queryKey: API_KEYS_QUERY_KEY,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: getErrorMessage(error),
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (newKey: NewApiKey): Promise<CreatedApiKey> => {
+      const res = await apiRequest("POST", "/api/keys", newKey);
+      return res.json();
+    },
+    onSuccess: (created) => {
+      setCreatedKey(created);
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+    },
+    onError: onError("Could not create API key"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/keys/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (createdKey?.id === id) setCreatedKey(null);
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      toast({
+        title: "API key revoked",
+        description: "Requests using it will now be rejected",
+      });
+    },
+    onError: onError("Could not revoke API key"),
+  });
+
+  return {
+    keys: keys ?? [],
+    isLoading,
+    createdKey,
+    dismissCreatedKey: () => setCreatedKey(null),
+    createMutation,
+    revokeMutation,
+  };
+}
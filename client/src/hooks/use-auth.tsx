@@ -0,0 +1,63 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, getErrorMessage, queryClient } from "../lib/queryClient";
+import { type AuthUser, type Credentials } from "../types/auth";
+import { useToast } from "./use-toast";
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+export function useAuth() {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthError = (title: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: getErrorMessage(error),
+    });
+  };
+
+  // Anything cached for the previous user (their uploads) must not leak to the next
+  const setUser = (next: AuthUser | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(ME_QUERY_KEY, next);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<AuthUser> => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return res.json();
+    },
+    onSuccess: setUser,
+    onError: onAuthError("Login failed"),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials): Promise<AuthUser> => {
+      const res = await apiRequest("POST", "/api/auth/register", credentials);
+      return res.json();
+    },
+    onSuccess: setUser,
+    onError: onAuthError("Registration failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => setUser(null),
+    onError: onAuthError("Logout failed"),
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
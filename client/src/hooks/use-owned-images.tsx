@@ -0,0 +1,125 @@
+import { useState, useCallback, useEffect } from "react";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { fetchOwnedImages, deleteOwnedImages, generateCopyFormats } from "../lib/api";
+import { getErrorMessage, queryClient } from "../lib/queryClient";
+import { type CopyFormats, type OwnedImage, type OwnedImageSort } from "../types/upload";
+import { useToast } from "./use-toast";
+
+const OWNED_IMAGES_QUERY_KEY = "/api/me/images";
+export const DASHBOARD_PAGE_SIZE = 20;
+
+// `enabled` holds off the request until the user is known to be logged in
+export function useOwnedImages(enabled = true) {
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<OwnedImageSort>("newest");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  // Uploads made elsewhere in the app don't touch this cache, so always refetch
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: [OWNED_IMAGES_QUERY_KEY, page, sort],
+    queryFn: () => fetchOwnedImages(page, DASHBOARD_PAGE_SIZE, sort),
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    enabled,
+  });
+
+  const images = data?.images ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / DASHBOARD_PAGE_SIZE));
+
+  // Deleting the last images on the final page leaves it empty; step back
+  useEffect(() => {
+    if (data && page > pageCount) {
+      setPage(pageCount);
+    }
+  }, [data, page, pageCount]);
+
+  // A selection only spans the page it was made on
+  const changePage = useCallback((next: number) => {
+    setPage(Math.min(Math.max(1, next), pageCount));
+    setSelected(new Set());
+  }, [pageCount]);
+
+  const changeSort = useCallback((next: OwnedImageSort) => {
+    setSort(next);
+    setPage(1);
+    setSelected(new Set());
+  }, []);
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelected((current) =>
+      current.size === images.length ? new Set() : new Set(images.map((image) => image.id)),
+    );
+  }, [images]);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteOwnedImages,
+    onSuccess: ({ deleted, failed }) => {
+      setSelected((current) => new Set(Array.from(current).filter((id) => !deleted.includes(id))));
+      queryClient.invalidateQueries({ queryKey: [OWNED_IMAGES_QUERY_KEY] });
+
+      toast(failed.length === 0
+        ? {
+            title: deleted.length === 1 ? "Image deleted" : `${deleted.length} images deleted`,
+          }
+        : {
+            variant: "destructive",
+            title: "Some images were not deleted",
+            description: `${deleted.length} deleted, ${failed.length} already gone or not yours`,
+          });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: getErrorMessage(error),
+      });
+    },
+  });
+
+  // One link per line, in the order the images are listed
+  const copyLinks = useCallback(async (targets: OwnedImage[], format: keyof CopyFormats, label: string) => {
+    const text = targets.map((image) => generateCopyFormats(image)[format]).join("\n");
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard`,
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy failed",
+        description: "Unable to copy to clipboard",
+      });
+    }
+  }, [toast]);
+
+  return {
+    images,
+    total,
+    page: Math.min(page, pageCount),
+    pageCount,
+    sort,
+    selected,
+    isLoading,
+    isFetching,
+    error: error ? getErrorMessage(error) : null,
+    changePage,
+    changeSort,
+    toggleSelected,
+    toggleAll,
+    deleteImages: (ids: string[]) => deleteMutation.mutate(ids),
+    isDeleting: deleteMutation.isPending,
+    copyLinks,
+  };
+}
@@ -0,0 +1,148 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import {
+  HISTORY_STORAGE_KEY,
+  loadHistory,
+  saveHistory,
+  mergeHistory,
+  toNewHistoryEntry,
+  serializeHistory,
+  parseHistoryExport,
+} from "../lib/history";
+import { deleteImage } from "../lib/api";
+import { getErrorMessage } from "../lib/queryClient";
+import { type HistoryEntry, type UploadResult } from "../types/upload";
+import { useToast } from "./use-toast";
+
+interface UploadHistoryContextType {
+  entries: HistoryEntry[];
+  recordUpload: (result: UploadResult) => void;
+  updateEntry: (id: string, changes: Partial<UploadResult>) => void;
+  removeEntry: (id: string) => void;
+  deleteUpload: (entry: HistoryEntry) => Promise<void>;
+  clearHistory: () => void;
+  exportHistory: () => void;
+  importHistory: (file: File) => Promise<void>;
+}
+
+const UploadHistoryContext = createContext<UploadHistoryContextType | undefined>(undefined);
+
+// Remembers this browser's uploads in localStorage so links and delete tokens
+// outlive the success screen. Nothing here is sent to the server.
+export function UploadHistoryProvider({ children }: { children: React.ReactNode }) {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() =>
+    typeof window !== "undefined" ? loadHistory() : [],
+  );
+  const { toast } = useToast();
+
+  // Every change goes through here so state and storage never drift
+  const update = useCallback((change: (current: HistoryEntry[]) => HistoryEntry[]) => {
+    setEntries((current) => {
+      const next = change(current);
+      saveHistory(next);
+      return next;
+    });
+  }, []);
+
+  // Pick up uploads made in other tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === HISTORY_STORAGE_KEY) {
+        setEntries(loadHistory());
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const recordUpload = useCallback((result: UploadResult) => {
+    update((current) => mergeHistory(current, [toNewHistoryEntry(result)]));
+  }, [update]);
+
+  const updateEntry = useCallback((id: string, changes: Partial<UploadResult>) => {
+    update((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  }, [update]);
+
+  const removeEntry = useCallback((id: string) => {
+    update((current) => current.filter((entry) => entry.id !== id));
+  }, [update]);
+
+  // Deletes the image itself; an image that is already gone just leaves the history
+  const deleteUpload = useCallback(async (entry: HistoryEntry) => {
+    try {
+      const deleted = await deleteImage(entry);
+      removeEntry(entry.id);
+      toast({
+        title: deleted ? "Image deleted" : "Already gone",
+        description: deleted
+          ? "The image and its links have been removed"
+          : "This image had already expired or been deleted",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: error instanceof Error ? getErrorMessage(error) : "Please try again",
+      });
+    }
+  }, [removeEntry, toast]);
+
+  const clearHistory = useCallback(() => {
+    update(() => []);
+  }, [update]);
+
+  const exportHistory = useCallback(() => {
+    const blob = new Blob([serializeHistory(entries)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `piclink-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [entries]);
+
+  const importHistory = useCallback(async (file: File) => {
+    try {
+      const imported = parseHistoryExport(await file.text());
+      const known = new Set(entries.map((entry) => entry.id));
+      const added = imported.filter((entry) => !known.has(entry.id)).length;
+
+      update((current) => mergeHistory(current, imported));
+      toast({
+        title: "History imported",
+        description: added === 1 ? "1 upload added" : `${added} uploads added`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+      });
+    }
+  }, [entries, update, toast]);
+
+  return (
+    <UploadHistoryContext.Provider
+      value={{
+        entries,
+        recordUpload,
+        updateEntry,
+        removeEntry,
+        deleteUpload,
+        clearHistory,
+        exportHistory,
+        importHistory,
+      }}
+    >
+      {children}
+    </UploadHistoryContext.Provider>
+  );
+}
+
+export function useUploadHistory() {
+  const context = useContext(UploadHistoryContext);
+  if (!context) {
+    throw new Error("useUploadHistory must be used within UploadHistoryProvider");
+  }
+  return context;
+}
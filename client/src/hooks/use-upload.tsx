@@ -1,78 +1,291 @@
-import { useState, useCallback } from "react";
-import { uploadImage, validateFile } from "../lib/api";
-import { type FileWithPreview, type UploadResult, type UploadState } from "../types/upload";
+import { useState, useCallback, useRef } from "react";
+import { uploadImage, uploadImageFromUrl, validateFile, createAlbum, parseAlbumLink, updateImageSettings, UPLOAD_CONCURRENCY } from "../lib/api";
+import { uploadImageResumable, cancelResumableUpload, RESUMABLE_THRESHOLD } from "../lib/resumable-upload";
+import { type QueueItem, type UploadState, type AlbumChoice, type AlbumResult, type ImageSettings } from "../types/upload";
 import { useToast } from "./use-toast";
+import { useUploadHistory } from "./use-upload-history";
+
+// Largest batch accepted at once; matches the server's hourly per-IP upload limit
+const MAX_QUEUE_SIZE = 10;
 
 export function useUpload() {
   const [state, setState] = useState<UploadState>("idle");
-  const [selectedFile, setSelectedFile] = useState<FileWithPreview | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [result, setResult] = useState<UploadResult | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [album, setAlbum] = useState<AlbumResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set while an abort is a pause rather than a cancel
+  const pausedRef = useRef(false);
   const { toast } = useToast();
+  const { recordUpload, updateEntry } = useUploadHistory();
+
+  // Single-file view of the queue, for the original one-image flow
+  const selectedFile = queue.length === 1 ? queue[0] : null;
+  const results = queue.flatMap((item) => (item.result ? [item.result] : []));
+  const result = queue.length === 1 ? queue[0].result ?? null : null;
+  const uploadProgress = queue.length > 0
+    ? queue.reduce((acc, item) => acc + item.progress, 0) / queue.length
+    : 0;
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setQueue((items) => items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
 
   const reset = useCallback(() => {
+    pausedRef.current = false;
+    abortRef.current?.abort();
+    abortRef.current = null;
+
+    // Chunks of unfinished resumable uploads would otherwise wait for the server's sweeper
+    queue.forEach((item) => {
+      if (item.uploadId && item.status !== "success") cancelResumableUpload(item.uploadId);
+    });
+
     setState("idle");
-    setSelectedFile(null);
-    setUploadProgress(0);
-    setResult(null);
     setError(null);
-    
-    // Clean up preview URL
-    if (selectedFile?.preview) {
-      URL.revokeObjectURL(selectedFile.preview);
+    setAlbum(null);
+
+    // Clean up preview URLs
+    queue.forEach((item) => URL.revokeObjectURL(item.preview));
+    setQueue([]);
+  }, [queue]);
+
+  const selectFiles = useCallback((files: File[]) => {
+    const accepted: QueueItem[] = [];
+    const rejected: string[] = [];
+
+    for (const file of files) {
+      const validationError = validateFile(file);
+      if (validationError) {
+        rejected.push(`${file.name}: ${validationError}`);
+        continue;
+      }
+
+      if (queue.length + accepted.length >= MAX_QUEUE_SIZE) {
+        rejected.push(`${file.name}: Only ${MAX_QUEUE_SIZE} images can be uploaded at once.`);
+        continue;
+      }
+
+      accepted.push({
+        file,
+        preview: URL.createObjectURL(file),
+        id: Math.random().toString(36).substr(2, 9),
+        status: "queued",
+        progress: 0,
+      });
     }
-  }, [selectedFile]);
 
-  const selectFile = useCallback((file: File) => {
-    // Validate file
-    const validationError = validateFile(file);
-    if (validationError) {
-      setError(validationError);
-      setState("error");
+    if (rejected.length > 0) {
       toast({
         variant: "destructive",
-        title: "Invalid file",
-        description: validationError,
+        title: rejected.length === 1 ? "Invalid file" : `${rejected.length} files skipped`,
+        description: rejected.join("\n"),
       });
+    }
+
+    if (accepted.length === 0) {
+      // Nothing usable and nothing queued before: show the error like a failed upload
+      if (queue.length === 0 && rejected.length > 0) {
+        setError(rejected.join("\n"));
+        setState("error");
+      }
       return;
     }
 
-    // Clean up previous preview
-    if (selectedFile?.preview) {
-      URL.revokeObjectURL(selectedFile.preview);
+    setQueue((items) => [...items, ...accepted]);
+    setState("preview");
+    setError(null);
+  }, [queue, toast]);
+
+  const selectFile = useCallback((file: File) => selectFiles([file]), [selectFiles]);
+
+  const removeFile = useCallback((id: string) => {
+    const item = queue.find((entry) => entry.id === id);
+    if (item) {
+      URL.revokeObjectURL(item.preview);
+      if (item.uploadId) cancelResumableUpload(item.uploadId);
     }
 
-    // Create preview URL
-    const preview = URL.createObjectURL(file);
-    const fileWithPreview: FileWithPreview = {
-      file,
-      preview,
-      id: Math.random().toString(36).substr(2, 9),
-    };
+    const remaining = queue.filter((entry) => entry.id !== id);
+    setQueue(remaining);
+    if (remaining.length === 0) {
+      setState("idle");
+    }
+  }, [queue]);
 
-    setSelectedFile(fileWithPreview);
-    setState("preview");
+  // Resolves where the batch goes; a new album is created once and reused on retry
+  const resolveAlbum = useCallback(async (choice: AlbumChoice): Promise<AlbumResult | null> => {
+    if (album) return album;
+
+    if (choice.mode === "new") {
+      return createAlbum(choice.title);
+    }
+
+    if (choice.mode === "existing") {
+      const parsed = parseAlbumLink(choice.link);
+      if (!parsed) {
+        throw new Error("Paste the album's delete link to add images to it.");
+      }
+      return {
+        id: parsed.id,
+        deleteToken: parsed.deleteToken,
+        url: `${window.location.origin}/a/${parsed.id}`,
+        deleteUrl: `${window.location.origin}/a/${parsed.id}/delete/${parsed.deleteToken}`,
+      };
+    }
+
+    return null;
+  }, [album]);
+
+  // Uploads everything not yet uploaded, a few files at a time. Calling it
+  // again after a partial failure or a pause retries only the unfinished
+  // files; large ones pick up from the last chunk the server has.
+  const upload = useCallback(async (albumChoice: AlbumChoice = { mode: "none" }) => {
+    const pending = queue.filter((item) => item.status !== "success");
+    if (pending.length === 0) return;
+
+    let target: AlbumResult | null;
+    try {
+      target = await resolveAlbum(albumChoice);
+      setAlbum(target);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Album unavailable",
+        description: error instanceof Error ? error.message : "Could not create the album",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    pausedRef.current = false;
+
+    setState("uploading");
     setError(null);
-  }, [selectedFile, toast]);
 
-  const upload = useCallback(async () => {
-    if (!selectedFile) return;
+    let next = 0;
+    let succeeded = queue.length - pending.length;
+    const errors: string[] = [];
+
+    const worker = async () => {
+      while (next < pending.length && !controller.signal.aborted) {
+        const item = pending[next++];
+        // A paused resumable upload keeps the progress it had
+        updateItem(item.id, { status: "uploading", progress: item.uploadId ? item.progress : 0, error: undefined });
+
+        const onProgress = (progress: number) => updateItem(item.id, { progress });
+        const options = { albumId: target?.id, albumToken: target?.deleteToken };
+
+        try {
+          const result = item.file.size > RESUMABLE_THRESHOLD
+            ? await uploadImageResumable(item.file, {
+                ...options,
+                uploadId: item.uploadId,
+                onSession: (uploadId) => updateItem(item.id, { uploadId }),
+                onProgress,
+                signal: controller.signal,
+              })
+            : await uploadImage(item.file, onProgress, controller.signal, options);
+          updateItem(item.id, { status: "success", progress: 100, result, uploadId: undefined });
+          recordUpload(result);
+          succeeded++;
+        } catch (error) {
+          if (controller.signal.aborted && pausedRef.current) {
+            updateItem(item.id, { status: "paused" });
+            continue;
+          }
+          const errorMessage = error instanceof Error ? error.message : "Upload failed";
+          updateItem(item.id, { status: "error", error: errorMessage });
+          errors.push(errorMessage);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(UPLOAD_CONCURRENCY, pending.length) }, worker),
+    );
+
+    if (controller.signal.aborted) {
+      if (pausedRef.current) setState("paused");
+      // Otherwise cancelled: reset() already cleared the queue
+      return;
+    }
+    abortRef.current = null;
+
+    // A batch stays on the result view so each file's error is visible
+    if (succeeded === 0 && queue.length === 1) {
+      const errorMessage = errors[0] || "Upload failed";
+      setError(errorMessage);
+      setState("error");
+      toast({
+        variant: "destructive",
+        title: "Upload failed",
+        description: errorMessage,
+      });
+      return;
+    }
+
+    setState("success");
+    toast(errors.length === 0
+      ? {
+          title: "Upload successful!",
+          description: queue.length === 1 ? "Your image is ready to share" : `${succeeded} images are ready to share`,
+        }
+      : {
+          variant: "destructive",
+          title: "Some uploads failed",
+          description: `${succeeded} of ${queue.length} images uploaded`,
+        });
+  }, [queue, toast, updateItem, resolveAlbum, recordUpload]);
+
+  // Stops the batch; chunks already sent stay on the server for resume()
+  const pause = useCallback(() => {
+    if (state !== "uploading" || queue.some((item) => item.fromUrl)) return;
+    pausedRef.current = true;
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, [state, queue]);
+
+  // The album was resolved before the pause, so upload() reuses it
+  const resume = useCallback(() => upload(), [upload]);
 
+  // Upload by URL: the server fetches the image, so there's no local file or
+  // progress; the queue item gets a placeholder file named after the URL
+  const uploadFromUrl = useCallback(async (url: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const name = url.split(/[?#]/)[0].split("/").pop() || "remote-image";
+    const item: QueueItem = {
+      file: new File([], name),
+      preview: "",
+      id: Math.random().toString(36).substr(2, 9),
+      status: "uploading",
+      progress: 0,
+      fromUrl: true,
+    };
+    setQueue([item]);
     setState("uploading");
-    setUploadProgress(0);
     setError(null);
 
     try {
-      const result = await uploadImage(selectedFile.file, setUploadProgress);
-      setResult(result);
+      const result = await uploadImageFromUrl(url, controller.signal);
+      if (controller.signal.aborted) return;
+
+      updateItem(item.id, { status: "success", progress: 100, preview: result.rawUrl, result });
+      recordUpload(result);
       setState("success");
       toast({
         title: "Upload successful!",
         description: "Your image is ready to share",
       });
     } catch (error) {
+      // Cancelled: reset() already cleared the queue
+      if (controller.signal.aborted) return;
+
       const errorMessage = error instanceof Error ? error.message : "Upload failed";
+      updateItem(item.id, { status: "error", error: errorMessage });
       setError(errorMessage);
       setState("error");
       toast({
@@ -80,8 +293,27 @@ export function useUpload() {
         title: "Upload failed",
         description: errorMessage,
       });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [toast, updateItem, recordUpload]);
+
+  const changeSettings = useCallback(async (id: string, settings: ImageSettings) => {
+    const item = queue.find((entry) => entry.result?.id === id);
+    if (!item?.result) return;
+
+    try {
+      const applied = await updateImageSettings(item.result, settings);
+      updateItem(item.id, { result: { ...item.result, ...applied } });
+      updateEntry(id, applied);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not update image",
+        description: error instanceof Error ? error.message : "Please try again",
+      });
     }
-  }, [selectedFile, toast]);
+  }, [queue, toast, updateItem, updateEntry]);
 
   const copyToClipboard = useCallback(async (text: string, label: string) => {
     try {
@@ -101,13 +333,22 @@ export function useUpload() {
 
   return {
     state,
+    queue,
     selectedFile,
     uploadProgress,
     result,
+    results,
+    album,
     error,
     selectFile,
+    selectFiles,
+    removeFile,
     upload,
+    uploadFromUrl,
+    pause,
+    resume,
     reset,
+    changeSettings,
     copyToClipboard,
   };
 }
@@ -1,12 +1,32 @@
-import { type UploadResult } from "../types/upload";
+import { type UploadResult, type UploadOptions, type AlbumResult, type ImageSettings, type OwnedImagesPage, type OwnedImageSort } from "../types/upload";
+import { apiRequest } from "./queryClient";
 
-export async function uploadImage(file: File, onProgress?: (progress: number) => void): Promise<UploadResult> {
+// Max uploads in flight at once when a batch is sent
+export const UPLOAD_CONCURRENCY = 3;
+
+export async function uploadImage(
+  file: File,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+  options: UploadOptions = {},
+): Promise<UploadResult> {
   const formData = new FormData();
   formData.append("image", file);
 
+  if (options.albumId && options.albumToken) {
+    formData.append("albumId", options.albumId);
+    formData.append("albumToken", options.albumToken);
+  }
+
   const xhr = new XMLHttpRequest();
 
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Upload cancelled"));
+      return;
+    }
+    signal?.addEventListener("abort", () => xhr.abort());
+
     xhr.upload.addEventListener("progress", (e) => {
       if (e.lengthComputable && onProgress) {
         const progress = (e.loaded / e.total) * 100;
@@ -45,6 +65,99 @@ export async function uploadImage(file: File, onProgress?: (progress: number) =>
   });
 }
 
+// The server fetches `url` itself; there's no upload progress to report
+export async function uploadImageFromUrl(
+  url: string,
+  signal?: AbortSignal,
+  options: UploadOptions = {},
+): Promise<UploadResult> {
+  let res: Response;
+  try {
+    res = await fetch("/api/upload/url", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url, albumId: options.albumId, albumToken: options.albumToken }),
+      credentials: "include",
+      signal,
+    });
+  } catch {
+    throw new Error(signal?.aborted ? "Upload cancelled" : "Network error during upload");
+  }
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.message || `Upload failed with status ${res.status}`);
+  }
+  return body;
+}
+
+export async function createAlbum(title?: string): Promise<AlbumResult> {
+  const res = await apiRequest("POST", "/api/albums", { title: title || undefined });
+  return res.json();
+}
+
+// Returns the settings as the server applied them (expiry may be capped)
+export async function updateImageSettings(
+  result: UploadResult,
+  settings: ImageSettings,
+): Promise<Pick<UploadResult, "expiresAt" | "maxViews" | "passwordProtected">> {
+  const res = await apiRequest("PATCH", `/api/images/${result.id}`, {
+    ...settings,
+    deleteToken: result.deleteToken,
+  });
+  return res.json();
+}
+
+// Resolves false when the image was already gone (expired, viewed out or deleted elsewhere)
+export async function deleteImage(result: Pick<UploadResult, "id" | "deleteToken">): Promise<boolean> {
+  try {
+    await apiRequest("DELETE", `/api/images/${result.id}`, { deleteToken: result.deleteToken });
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("404:")) return false;
+    throw error;
+  }
+}
+
+export async function fetchOwnedImages(page: number, pageSize: number, sort: OwnedImageSort): Promise<OwnedImagesPage> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize), sort });
+  const res = await apiRequest("GET", `/api/me/images?${params}`);
+  return res.json();
+}
+
+// Ids that were already gone or not the user's come back in `failed`
+export async function deleteOwnedImages(ids: string[]): Promise<{ deleted: string[]; failed: string[] }> {
+  const res = await apiRequest("POST", "/api/me/images/delete", { ids });
+  return res.json();
+}
+
+export type UploaderTool = "sharex" | "flameshot";
+
+// Downloads a ShareX (.sxcu) or Flameshot (script) config that uploads with `apiKey`
+export async function downloadUploaderConfig(tool: UploaderTool, apiKey: string): Promise<void> {
+  const res = await fetch(`/api/uploader-config/${tool}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+
+  const filename = res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1]
+    ?? (tool === "sharex" ? "piclink.sxcu" : "piclink-flameshot.sh");
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Album delete links (/a/:id/delete/:token) double as the key for adding images
+export function parseAlbumLink(link: string): { id: string; deleteToken: string } | null {
+  const match = link.trim().match(/\/a\/([^/?#]+)\/delete\/([^/?#]+)/);
+  return match ? { id: match[1], deleteToken: match[2] } : null;
+}
+
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 B";
   
@@ -57,7 +170,7 @@ export function formatFileSize(bytes: number): string {
 
 export function validateFile(file: File): string | null {
   const maxSize = 10 * 1024 * 1024; // 10MB
-  const allowedTypes = ["image/png", "image/jpeg", "image/jpg", "image/webp", "image/gif"];
+  const allowedTypes = ["image/png", "image/jpeg", "image/jpg", "image/webp", "image/gif", "image/apng"];
 
   if (!allowedTypes.includes(file.type)) {
     return "File type not supported. Please use PNG, JPG, JPEG, WebP, or GIF.";
@@ -70,6 +183,16 @@ export function validateFile(file: File): string | null {
   return null;
 }
 
+// Loose check before sending a URL to the server, which validates it properly
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
 export function generateCopyFormats(result: UploadResult) {
   return {
     direct: result.rawUrl,
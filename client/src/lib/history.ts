@@ -0,0 +1,113 @@
+import { type HistoryEntry, type UploadResult } from "../types/upload";
+
+export const HISTORY_STORAGE_KEY = "upload-history";
+
+// Oldest entries are dropped past this so localStorage stays well under quota
+export const MAX_HISTORY_ENTRIES = 500;
+
+const EXPORT_VERSION = 1;
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+// Rebuilds an entry from untrusted JSON (localStorage or an imported file),
+// keeping only the fields the app knows about
+function toHistoryEntry(value: unknown): HistoryEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const entry = value as Record<string, unknown>;
+
+  if (
+    !isString(entry.id) ||
+    !isString(entry.rawUrl) ||
+    !isString(entry.shortUrl) ||
+    !isString(entry.mime) ||
+    !isString(entry.deleteToken) ||
+    !isString(entry.deleteUrl) ||
+    typeof entry.size !== "number"
+  ) {
+    return null;
+  }
+
+  const uploadedAt = isString(entry.uploadedAt) && !Number.isNaN(Date.parse(entry.uploadedAt))
+    ? entry.uploadedAt
+    : new Date().toISOString();
+
+  return {
+    id: entry.id,
+    rawUrl: entry.rawUrl,
+    shortUrl: entry.shortUrl,
+    mime: entry.mime,
+    size: entry.size,
+    width: typeof entry.width === "number" ? entry.width : undefined,
+    height: typeof entry.height === "number" ? entry.height : undefined,
+    deleteToken: entry.deleteToken,
+    deleteUrl: entry.deleteUrl,
+    albumId: isString(entry.albumId) ? entry.albumId : undefined,
+    expiresAt: isString(entry.expiresAt) ? entry.expiresAt : null,
+    maxViews: typeof entry.maxViews === "number" ? entry.maxViews : null,
+    passwordProtected: entry.passwordProtected === true,
+    uploadedAt,
+  };
+}
+
+function isExpired(entry: HistoryEntry, now: number): boolean {
+  return entry.expiresAt !== null && Date.parse(entry.expiresAt) <= now;
+}
+
+// Newest first, one entry per image (what's already here wins), expired uploads left out
+export function mergeHistory(current: HistoryEntry[], incoming: HistoryEntry[]): HistoryEntry[] {
+  const byId = new Map<string, HistoryEntry>();
+  for (const entry of [...incoming, ...current]) {
+    byId.set(entry.id, entry);
+  }
+
+  const now = Date.now();
+  return Array.from(byId.values())
+    .filter((entry) => !isExpired(entry, now))
+    .sort((a, b) => Date.parse(b.uploadedAt) - Date.parse(a.uploadedAt))
+    .slice(0, MAX_HISTORY_ENTRIES);
+}
+
+export function toNewHistoryEntry(result: UploadResult): HistoryEntry {
+  return { ...result, uploadedAt: new Date().toISOString() };
+}
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return mergeHistory([], stored.flatMap((value) => toHistoryEntry(value) ?? []));
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(entries: HistoryEntry[]): void {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled (private browsing); history just won't persist
+  }
+}
+
+export function serializeHistory(entries: HistoryEntry[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+// Accepts a file written by serializeHistory, or a bare array of entries
+export function parseHistoryExport(text: string): HistoryEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const raw = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+  if (!Array.isArray(raw)) {
+    throw new Error("The file is not an upload history export.");
+  }
+
+  return raw.flatMap((value) => toHistoryEntry(value) ?? []);
+}
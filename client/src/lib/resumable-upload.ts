@@ -0,0 +1,208 @@
+import { type UploadResult, type UploadOptions } from "../types/upload";
+
+// Files larger than this are sent in chunks through /api/uploads, so a
+// dropped connection or a pause only costs the chunk in flight
+export const RESUMABLE_THRESHOLD = 1024 * 1024;
+
+// Waits before each retry of a failed request; one entry per attempt
+const RETRY_DELAYS = [1000, 2000, 4000, 8000, 15000];
+
+interface UploadSessionInfo {
+  id: string;
+  offset: number;
+  size: number;
+  chunkSize: number;
+}
+
+export interface ResumableUploadOptions extends UploadOptions {
+  uploadId?: string; // session to resume, from an earlier onSession
+  onSession?: (uploadId: string) => void;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Status 0 is a network error
+class RequestError extends Error {
+  constructor(message: string, public status: number, public body?: unknown) {
+    super(message);
+  }
+}
+
+// `message` of a JSON error body, when it has one
+function getErrorMessage(body: unknown): string | undefined {
+  return typeof body === "object" && body !== null && "message" in body && typeof body.message === "string"
+    ? body.message
+    : undefined;
+}
+
+// Network errors, server errors and offset conflicts go away on a retry;
+// everything else (validation, rate limit, lost session) won't
+const isRetryable = (error: unknown): boolean =>
+  error instanceof RequestError && (error.status === 0 || error.status === 409 || error.status >= 500);
+
+const cancelled = () => new Error("Upload cancelled");
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function withRetry<T>(signal: AbortSignal | undefined, attempt: (retry: number) => Promise<T>): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(retry);
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      if (!isRetryable(error) || retry >= RETRY_DELAYS.length) throw error;
+      await wait(RETRY_DELAYS[retry], signal);
+    }
+  }
+}
+
+// Resolves with the response body, which the server sends as `T`
+async function requestJson<T>(method: string, url: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : {},
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include",
+      signal,
+    });
+  } catch {
+    if (signal?.aborted) throw cancelled();
+    throw new RequestError("Network error during upload", 0);
+  }
+
+  const json: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new RequestError(getErrorMessage(json) || `Upload failed with status ${res.status}`, res.status, json);
+  }
+  return json as T;
+}
+
+// XHR rather than fetch for upload progress; resolves with the new offset
+function sendChunk(
+  session: UploadSessionInfo,
+  chunk: Blob,
+  offset: number,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<number> {
+  const xhr = new XMLHttpRequest();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.addEventListener("loadend", () => signal?.removeEventListener("abort", onAbort));
+
+    xhr.upload.addEventListener("progress", (e) => onProgress(e.loaded));
+
+    xhr.addEventListener("load", () => {
+      let body: unknown = null;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error page from a proxy
+      }
+
+      const newOffset = typeof body === "object" && body !== null && "offset" in body ? body.offset : undefined;
+      if (xhr.status === 200 && typeof newOffset === "number") {
+        resolve(newOffset);
+      } else {
+        reject(new RequestError(getErrorMessage(body) || `Upload failed with status ${xhr.status}`, xhr.status, body));
+      }
+    });
+    xhr.addEventListener("error", () => reject(new RequestError("Network error during upload", 0)));
+    xhr.addEventListener("abort", () => reject(cancelled()));
+
+    xhr.open("PATCH", `/api/uploads/${session.id}`);
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    xhr.send(chunk);
+  });
+}
+
+// Looks up a session to resume; null when the server no longer has it
+async function findSession(uploadId: string, size: number, signal?: AbortSignal): Promise<UploadSessionInfo | null> {
+  try {
+    const session = await withRetry(signal, () => requestJson<UploadSessionInfo>("GET", `/api/uploads/${uploadId}`, undefined, signal));
+    return session.size === size ? session : null;
+  } catch (error) {
+    if (error instanceof RequestError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+function createSession(file: File, options: ResumableUploadOptions): Promise<UploadSessionInfo> {
+  return withRetry(options.signal, () => requestJson<UploadSessionInfo>("POST", "/api/uploads", {
+    filename: file.name,
+    size: file.size,
+    type: file.type,
+    albumId: options.albumId,
+    albumToken: options.albumToken,
+  }, options.signal));
+}
+
+// Uploads `file` in chunks, retrying failed chunks from wherever the server
+// got to. Aborting `signal` pauses: the session stays on the server and a
+// later call with its `uploadId` carries on from there.
+export async function uploadImageResumable(file: File, options: ResumableUploadOptions = {}): Promise<UploadResult> {
+  const { signal, onProgress } = options;
+
+  let session = options.uploadId ? await findSession(options.uploadId, file.size, signal) : null;
+  if (!session) {
+    session = await createSession(file, options);
+    options.onSession?.(session.id);
+  }
+
+  let offset = session.offset;
+  let restarted = false;
+  while (offset < file.size) {
+    const current = session;
+    const start = offset;
+    try {
+      offset = await withRetry(signal, async (retry) => {
+        // After a failure the server may have kept part of the chunk
+        const from = retry === 0
+          ? start
+          : (await requestJson<UploadSessionInfo>("GET", `/api/uploads/${current.id}`, undefined, signal)).offset;
+        if (from >= file.size) return from;
+
+        const chunk = file.slice(from, from + current.chunkSize);
+        return sendChunk(current, chunk, from, (loaded) => onProgress?.(((from + loaded) / file.size) * 100), signal);
+      });
+      onProgress?.((offset / file.size) * 100);
+    } catch (error) {
+      // Session expired or the server restarted: start over once
+      if (error instanceof RequestError && error.status === 404 && !restarted) {
+        restarted = true;
+        session = await createSession(file, options);
+        options.onSession?.(session.id);
+        offset = 0;
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return withRetry(signal, () => requestJson<UploadResult>("POST", `/api/uploads/${session.id}/complete`, undefined, signal));
+}
+
+// Drops a paused or abandoned upload's chunks from the server; best effort
+export function cancelResumableUpload(uploadId: string): void {
+  fetch(`/api/uploads/${uploadId}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+}
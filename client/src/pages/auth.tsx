@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Header } from "../components/header";
+import { Footer } from "../components/footer";
+import { useAuth } from "../hooks/use-auth";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { LogIn, UserPlus } from "lucide-react";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  const pending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleSubmit = (mode: "login" | "register") => (e: React.FormEvent) => {
+    e.preventDefault();
+    const mutation = mode === "login" ? loginMutation : registerMutation;
+    mutation.mutate({ username, password });
+  };
+
+  const fields = (mode: "login" | "register") => (
+    <form className="space-y-4" onSubmit={handleSubmit(mode)}>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          required
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          minLength={mode === "register" ? 8 : undefined}
+          required
+          data-testid={`input-${mode}-password`}
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
+        disabled={pending}
+        data-testid={`button-${mode}`}
+      >
+        {mode === "login" ? <LogIn className="mr-2 w-4 h-4" /> : <UserPlus className="mr-2 w-4 h-4" />}
+        {mode === "login" ? "Log In" : "Create Account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <Header />
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="max-w-md mx-auto">
+          <Card className="bg-card border border-border rounded-xl p-6 shadow-sm">
+            <Tabs defaultValue="login">
+              <TabsList className="grid grid-cols-2 w-full mb-6">
+                <TabsTrigger value="login" data-testid="tab-login">Log In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">{fields("login")}</TabsContent>
+              <TabsContent value="register">
+                {fields("register")}
+                <p className="text-xs text-muted-foreground mt-4">
+                  An account keeps track of your uploads so you can manage them without delete links.
+                  Uploading without one still works.
+                </p>
+              </TabsContent>
+            </Tabs>
+          </Card>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { Link, Redirect } from "wouter";
+import { Header } from "../components/header";
+import { Footer } from "../components/footer";
+import { OwnedImagesTable } from "../components/owned-images-table";
+import { ApiKeysCard } from "../components/api-keys-card";
+import { useAuth } from "../hooks/use-auth";
+import { useOwnedImages } from "../hooks/use-owned-images";
+import { type OwnedImageSort } from "../types/upload";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, ArrowUpDown, Copy, ImageOff, Loader2, Plus, Trash2 } from "lucide-react";
+
+const SORT_LABELS: Record<OwnedImageSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  largest: "Largest first",
+  smallest: "Smallest first",
+};
+
+// Page numbers to show: the ends plus a couple either side of the current page
+function getPageWindow(page: number, pageCount: number): (number | "gap")[] {
+  const pages: (number | "gap")[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== "gap") {
+      pages.push("gap");
+    }
+  }
+  return pages;
+}
+
+export default function Dashboard() {
+  const { user, isLoading: authLoading } = useAuth();
+  const {
+    images,
+    total,
+    page,
+    pageCount,
+    sort,
+    selected,
+    isLoading,
+    isFetching,
+    error,
+    changePage,
+    changeSort,
+    toggleSelected,
+    toggleAll,
+    deleteImages,
+    isDeleting,
+    copyLinks,
+  } = useOwnedImages(Boolean(user));
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+
+  if (!authLoading && !user) {
+    return <Redirect to="/auth" />;
+  }
+
+  const selectedImages = images.filter((image) => selected.has(image.id));
+
+  const goTo = (next: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    changePage(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <Header />
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-card-foreground">My Uploads</h2>
+              <p className="text-muted-foreground" data-testid="text-upload-count">
+                {total === 1 ? "1 image" : `${total} images`}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {selected.size > 0 && (
+                <>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" data-testid="button-copy-selected">
+                        <Copy className="mr-2 w-4 h-4" />
+                        Copy {selected.size} {selected.size === 1 ? "Link" : "Links"}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => copyLinks(selectedImages, "short", "Short links")}>
+                        Short Links
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => copyLinks(selectedImages, "direct", "Direct links")}>
+                        Direct Links
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => copyLinks(selectedImages, "markdown", "Markdown")}>
+                        Markdown
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => copyLinks(selectedImages, "html", "HTML")}>
+                        HTML
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => copyLinks(selectedImages, "bbcode", "BBCode")}>
+                        BBCode
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => setPendingDelete(Array.from(selected))}
+                    disabled={isDeleting}
+                    data-testid="button-delete-selected"
+                  >
+                    <Trash2 className="mr-2 w-4 h-4" />
+                    Delete {selected.size}
+                  </Button>
+                </>
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid="button-sort">
+                    <ArrowUpDown className="mr-2 w-4 h-4" />
+                    {SORT_LABELS[sort]}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Sort by</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuRadioGroup value={sort} onValueChange={(value) => changeSort(value as OwnedImageSort)}>
+                    {(Object.keys(SORT_LABELS) as OwnedImageSort[]).map((option) => (
+                      <DropdownMenuRadioItem key={option} value={option}>
+                        {SORT_LABELS[option]}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+
+          <Card className="bg-card border border-border rounded-xl shadow-sm overflow-hidden">
+            {authLoading || isLoading ? (
+              <div className="flex items-center justify-center p-12 text-muted-foreground">
+                <Loader2 className="mr-2 w-5 h-5 animate-spin" />
+                Loading your uploads…
+              </div>
+            ) : error ? (
+              <div className="flex items-center justify-center p-12 text-destructive" data-testid="text-dashboard-error">
+                <AlertTriangle className="mr-2 w-5 h-5" />
+                {error}
+              </div>
+            ) : images.length === 0 ? (
+              <div className="flex flex-col items-center justify-center p-12 text-center">
+                <ImageOff className="w-10 h-10 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground mb-4">You haven't uploaded anything while logged in yet.</p>
+                <Button asChild className="bg-primary hover:bg-primary/90 text-primary-foreground">
+                  <Link href="/">
+                    <Plus className="mr-2 w-4 h-4" />
+                    Upload Images
+                  </Link>
+                </Button>
+              </div>
+            ) : (
+              <div className={isFetching ? "opacity-60 transition-opacity" : "transition-opacity"}>
+                <OwnedImagesTable
+                  images={images}
+                  selected={selected}
+                  onToggle={toggleSelected}
+                  onToggleAll={toggleAll}
+                  onCopy={copyLinks}
+                  onDelete={setPendingDelete}
+                />
+              </div>
+            )}
+          </Card>
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={goTo(page - 1)}
+                    aria-disabled={page === 1}
+                    className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                  />
+                </PaginationItem>
+                {getPageWindow(page, pageCount).map((entry, index) => (
+                  <PaginationItem key={entry === "gap" ? `gap-${index}` : entry}>
+                    {entry === "gap" ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href="#" isActive={entry === page} onClick={goTo(entry)}>
+                        {entry}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={goTo(page + 1)}
+                    aria-disabled={page === pageCount}
+                    className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+
+          {user && <ApiKeysCard />}
+        </div>
+      </main>
+
+      <Footer />
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDelete?.length === 1 ? "this image" : `${pendingDelete?.length} images`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Deleted images are removed for good and their links stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteImages(pendingDelete);
+                setPendingDelete(null);
+              }}
+              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
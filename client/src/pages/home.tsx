@@ -3,9 +3,12 @@ import { useUpload } from "../hooks/use-upload";
 import { Header } from "../components/header";
 import { Footer } from "../components/footer";
 import { UploadZone } from "../components/upload-zone";
+import { UrlUploadForm } from "../components/url-upload-form";
 import { FilePreview } from "../components/file-preview";
 import { UploadProgress } from "../components/upload-progress";
+import { UploadQueue } from "../components/upload-queue";
 import { SuccessResult } from "../components/success-result";
+import { BatchResult } from "../components/batch-result";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AlertTriangle, RotateCcw, Zap, Shield, Link } from "lucide-react";
@@ -13,35 +16,41 @@ import { AlertTriangle, RotateCcw, Zap, Shield, Link } from "lucide-react";
 export default function Home() {
   const {
     state,
+    queue,
     selectedFile,
     uploadProgress,
     result,
+    album,
     error,
-    selectFile,
+    selectFiles,
+    removeFile,
     upload,
+    uploadFromUrl,
+    pause,
+    resume,
     reset,
+    changeSettings,
     copyToClipboard,
   } = useUpload();
 
   // Handle keyboard paste events globally
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
-      if (state !== "idle") return;
+      if (state !== "idle" && state !== "preview") return;
       
-      const items = Array.from(e.clipboardData?.items || []);
-      const imageItem = items.find(item => item.type.startsWith('image/'));
+      const files = Array.from(e.clipboardData?.items || [])
+        .filter(item => item.type.startsWith('image/'))
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
       
-      if (imageItem) {
-        const file = imageItem.getAsFile();
-        if (file) {
-          selectFile(file);
-        }
+      if (files.length > 0) {
+        selectFiles(files);
       }
     };
 
     document.addEventListener("paste", handlePaste);
     return () => document.removeEventListener("paste", handlePaste);
-  }, [state, selectFile]);
+  }, [state, selectFiles]);
 
   return (
     <div className="min-h-screen bg-background text-foreground font-sans">
@@ -64,22 +73,43 @@ export default function Home() {
           <div className="space-y-8">
             {/* Upload Zone - Show when idle */}
             {state === "idle" && (
-              <UploadZone onFileSelect={selectFile} />
+              <>
+                <UploadZone onFilesSelect={selectFiles} />
+                <UrlUploadForm onUrlSubmit={uploadFromUrl} />
+              </>
             )}
 
             {/* File Preview - Show when file selected */}
             {state === "preview" && selectedFile && (
               <FilePreview
                 file={selectedFile}
+                onUpload={() => upload()}
+                onCancel={reset}
+              />
+            )}
+
+            {/* Upload Queue - Show when several files are selected or uploading */}
+            {(state === "preview" || state === "uploading" || state === "paused") && queue.length > 1 && (
+              <UploadQueue
+                items={queue}
+                uploading={state === "uploading"}
+                paused={state === "paused"}
                 onUpload={upload}
+                onPause={pause}
+                onResume={resume}
+                onRemove={removeFile}
+                onAddFiles={selectFiles}
                 onCancel={reset}
               />
             )}
 
             {/* Upload Progress - Show during upload */}
-            {state === "uploading" && (
+            {(state === "uploading" || state === "paused") && queue.length === 1 && (
               <UploadProgress
                 progress={uploadProgress}
+                paused={state === "paused"}
+                onPause={queue[0].fromUrl ? undefined : pause}
+                onResume={resume}
                 onCancel={reset}
               />
             )}
@@ -89,6 +119,18 @@ export default function Home() {
               <SuccessResult
                 result={result}
                 onCopy={copyToClipboard}
+                onSettingsChange={(settings) => changeSettings(result.id, settings)}
+                onUploadAnother={reset}
+              />
+            )}
+
+            {/* Batch Result - Show after a multi-file upload */}
+            {state === "success" && queue.length > 1 && (
+              <BatchResult
+                items={queue}
+                onCopy={copyToClipboard}
+                album={album}
+                onRetryFailed={() => upload()}
                 onUploadAnother={reset}
               />
             )}
@@ -0,0 +1,32 @@
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export type ApiKeyScope = "upload" | "delete" | "list";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // start of the key, the rest is never shown again
+  scopes: ApiKeyScope[];
+  uploadLimit: number; // uploads per hour
+  lastUsedAt: string | null; // ISO timestamp
+  createdAt: string | null; // ISO timestamp
+}
+
+// Returned once, when the key is created
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  uploadLimit: number;
+}
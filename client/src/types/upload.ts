@@ -4,6 +4,17 @@ export interface FileWithPreview {
   id: string;
 }
 
+export type QueueItemStatus = "queued" | "uploading" | "paused" | "success" | "error";
+
+export interface QueueItem extends FileWithPreview {
+  status: QueueItemStatus;
+  progress: number;
+  result?: UploadResult;
+  error?: string;
+  uploadId?: string; // resumable upload session, kept while paused
+  fromUrl?: boolean; // fetched by the server, so it can't be paused
+}
+
 export interface UploadProgress {
   progress: number;
   speed: string;
@@ -18,8 +29,62 @@ export interface UploadResult {
   height?: number;
   size: number;
   mime: string;
+  deleteToken: string;
+  deleteUrl: string;
+  albumId?: string;
+  expiresAt: string | null; // ISO timestamp; null never expires
+  maxViews: number | null;   // deleted after this many views; null is unlimited
+  passwordProtected: boolean;
+}
+
+// A past upload remembered in this browser, delete token included
+export interface HistoryEntry extends UploadResult {
+  uploadedAt: string; // ISO timestamp
+}
+
+// How long the server keeps an upload; it may cap longer choices
+export type ExpiryOption = "1h" | "1d" | "1w" | "never";
+
+// Settings that can still be changed after upload
+export interface ImageSettings {
+  expiresIn?: ExpiryOption;
+  maxViews?: number | null;
+  password?: string | null; // null removes the password
+}
+
+// An upload as listed on the signed-in user's dashboard
+export interface OwnedImage extends UploadResult {
+  createdAt: string | null; // ISO timestamp
+}
+
+export type OwnedImageSort = "newest" | "oldest" | "largest" | "smallest";
+
+export interface OwnedImagesPage {
+  images: OwnedImage[];
+  total: number;
+  page: number;
+  pageSize: number;
+  sort: OwnedImageSort;
+}
+
+export interface UploadOptions {
+  albumId?: string;
+  albumToken?: string;
 }
 
+export interface AlbumResult {
+  id: string;
+  url: string;
+  title?: string;
+  deleteToken: string;
+  deleteUrl: string;
+}
+
+export type AlbumChoice =
+  | { mode: "none" }
+  | { mode: "new"; title: string }
+  | { mode: "existing"; link: string };
+
 export interface CopyFormats {
   direct: string;
   short: string;
@@ -28,4 +93,4 @@ export interface CopyFormats {
   bbcode: string;
 }
 
-export type UploadState = "idle" | "preview" | "uploading" | "success" | "error";
+export type UploadState = "idle" | "preview" | "uploading" | "paused" | "success" | "error";
@@ -4,11 +4,24 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
-export default defineConfig({
-  out: "./migrations",
-  schema: "./shared/schema.ts",
-  dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
-});
+// SQLite/libSQL URLs (file:, libsql:) use the SQLite schema and migrations,
+// anything else is treated as a Postgres connection string
+const isSqlite = /^(file|libsql):/.test(process.env.DATABASE_URL);
+
+export default isSqlite
+  ? defineConfig({
+      out: "./migrations/sqlite",
+      schema: "./shared/schema.ts",
+      dialect: "sqlite",
+      dbCredentials: {
+        url: process.env.DATABASE_URL,
+      },
+    })
+  : defineConfig({
+      out: "./migrations/pg",
+      schema: "./shared/pg-schema.ts",
+      dialect: "postgresql",
+      dbCredentials: {
+        url: process.env.DATABASE_URL,
+      },
+    });
@@ -0,0 +1,12 @@
+CREATE TABLE "images" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"provider_key" text NOT NULL,
+	"raw_url" text NOT NULL,
+	"width" integer,
+	"height" integer,
+	"mime" text NOT NULL,
+	"size" integer NOT NULL,
+	"delete_token" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
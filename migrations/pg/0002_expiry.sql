@@ -0,0 +1,2 @@
+ALTER TABLE "images" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "images_expires_at_idx" ON "images" USING btree ("expires_at");
\ No newline at end of file
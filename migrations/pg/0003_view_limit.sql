@@ -0,0 +1,2 @@
+ALTER TABLE "images" ADD COLUMN "max_views" integer;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "views" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "images" ADD COLUMN "password_hash" text;
\ No newline at end of file
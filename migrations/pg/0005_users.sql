@@ -0,0 +1,10 @@
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "owner_id" text;--> statement-breakpoint
+CREATE INDEX "images_owner_id_idx" ON "images" USING btree ("owner_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "images" ADD COLUMN "replica_provider" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "replica_key" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "replica_url" text;
\ No newline at end of file
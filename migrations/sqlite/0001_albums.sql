@@ -0,0 +1,9 @@
+CREATE TABLE `albums` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text,
+	`delete_token` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch())
+);
+--> statement-breakpoint
+ALTER TABLE `images` ADD `album_id` text;--> statement-breakpoint
+CREATE INDEX `images_album_id_idx` ON `images` (`album_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `images` ADD `expires_at` integer;--> statement-breakpoint
+CREATE INDEX `images_expires_at_idx` ON `images` (`expires_at`);
\ No newline at end of file
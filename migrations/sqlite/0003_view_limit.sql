@@ -0,0 +1,2 @@
+ALTER TABLE `images` ADD `max_views` integer;--> statement-breakpoint
+ALTER TABLE `images` ADD `views` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `images` ADD `password_hash` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch())
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+ALTER TABLE `images` ADD `owner_id` text;--> statement-breakpoint
+CREATE INDEX `images_owner_id_idx` ON `images` (`owner_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `blobs` (
+	`sha256` text PRIMARY KEY NOT NULL,
+	`provider` text NOT NULL,
+	`provider_key` text NOT NULL,
+	`raw_url` text NOT NULL,
+	`replica_provider` text,
+	`replica_key` text,
+	`replica_url` text,
+	`width` integer,
+	`height` integer,
+	`ref_count` integer DEFAULT 1 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch())
+);
+--> statement-breakpoint
+CREATE INDEX `blobs_provider_key_idx` ON `blobs` (`provider`,`provider_key`);--> statement-breakpoint
+ALTER TABLE `images` ADD `sha256` text;
\ No newline at end of file
@@ -0,0 +1,248 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { credentialsSchema, type ApiKey, type ApiKeyScope, type UserResponse } from "@shared/schema";
+import { storage, pgPool } from "./storage.js";
+import { hashPassword, verifyPassword } from "./utils/password.js";
+import { hashApiKey, parseScopes } from "./utils/api-key.js";
+
+declare global {
+  namespace Express {
+    // What passport puts on req.user; never includes the password hash
+    interface User {
+      id: string;
+      username: string;
+    }
+
+    interface Request {
+      // Set when the request authenticated with `Authorization: Bearer <api key>`
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Sessions live in Postgres when that's the database; otherwise in memory,
+// so SQLite and in-memory deployments log everyone out on restart
+function createSessionStore(): session.Store {
+  if (pgPool) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: pgPool, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+const toUserResponse = (user: Express.User): UserResponse => ({ id: user.id, username: user.username });
+
+// Signed-in user's id (from the session or an API key), or null for anonymous requests
+export function getUserId(req: Request): string | null {
+  return req.apiKey?.userId ?? req.user?.id ?? null;
+}
+
+// Sessions can do everything their user can; API keys only what they were granted
+export function hasScope(req: Request, scope: ApiKeyScope): boolean {
+  return !req.apiKey || parseScopes(req.apiKey.scopes).includes(scope);
+}
+
+// The raw key from `Authorization: Bearer <key>`, if any
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.get("authorization");
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() || undefined : undefined;
+}
+
+// lastUsedAt is only for display, so don't write it on every request
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Resolves `Authorization: Bearer <key>` to req.apiKey. A bad key is rejected
+// outright rather than quietly treated as an anonymous request.
+async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(token));
+    if (!apiKey) {
+      return res.status(401).json({
+        message: "Invalid or revoked API key",
+      });
+    }
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > API_KEY_TOUCH_INTERVAL_MS) {
+      await storage.touchApiKey(apiKey.id, now);
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Wrong passwords allowed per IP and per username per window, to slow down guessing
+const loginFailures = new Map<string, { count: number; resetTime: number }>();
+const LOGIN_LIMIT = 10;
+const LOGIN_WINDOW = 15 * 60 * 1000; // 15 minutes
+
+const isLoginBlocked = (keys: string[]): boolean => {
+  const now = Date.now();
+  return keys.some((key) => {
+    const failures = loginFailures.get(key);
+    return !!failures && now <= failures.resetTime && failures.count >= LOGIN_LIMIT;
+  });
+};
+
+const recordLoginFailure = (keys: string[]) => {
+  const now = Date.now();
+  for (const key of keys) {
+    const failures = loginFailures.get(key);
+
+    if (!failures || now > failures.resetTime) {
+      loginFailures.set(key, { count: 1, resetTime: now + LOGIN_WINDOW });
+    } else {
+      failures.count++;
+    }
+  }
+};
+
+// Session middleware, passport-local, API key auth and the /api/auth routes.
+// Must run before any route that looks at req.user or req.apiKey.
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+  }
+
+  app.use(session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateApiKey);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+
+      done(null, toUserResponse(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUserById(id);
+      // A deleted user just ends up logged out
+      done(null, user ? toUserResponse(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const parsed = credentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0].message,
+        });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({
+          message: "That username is taken",
+        });
+      }
+
+      const user = toUserResponse(await storage.createUser({
+        username,
+        passwordHash: await hashPassword(password),
+      }));
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      console.error("Register error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const clientIp = req.ip || req.connection.remoteAddress || "unknown";
+    const username = typeof req.body?.username === "string" ? req.body.username.trim().toLowerCase() : "";
+    const limitKeys = [`ip:${clientIp}`, `user:${username}`];
+
+    if (isLoginBlocked(limitKeys)) {
+      return res.status(429).json({
+        message: "Too many failed logins. Please try again later.",
+      });
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false, info?: { message: string }) => {
+      if (error) return next(error);
+
+      if (!user) {
+        recordLoginFailure(limitKeys);
+        return res.status(401).json({
+          message: info?.message || "Invalid username or password",
+        });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toUserResponse(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({
+          message: "Logged out",
+        });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({
+        message: "Not logged in",
+      });
+    }
+
+    res.json(toUserResponse(req.user));
+  });
+}
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startExpiryReaper } from "./services/image-service";
+import { startUploadSessionSweeper } from "./services/upload-sessions";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -68,4 +70,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startExpiryReaper();
+  startUploadSessionSweeper();
 })();
@@ -0,0 +1,94 @@
+import { describe, it, before, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Writable } from "stream";
+import { v2 as cloudinary, type UploadApiOptions, type UploadApiResponse, type UploadResponseCallback } from "cloudinary";
+import { CloudinaryProvider } from "./cloudinary-provider.js";
+
+const IMAGE = Buffer.from("original bytes, exactly as uploaded");
+
+describe("CloudinaryProvider", () => {
+  let provider: CloudinaryProvider;
+
+  before(() => {
+    process.env.CLOUDINARY_CLOUD_NAME = "demo";
+    provider = new CloudinaryProvider();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  // Stands in for the upload API: collects what's streamed and answers with a public id
+  function mockUpload() {
+    const received: { options?: UploadApiOptions; body: Buffer[] } = { body: [] };
+    mock.method(cloudinary.uploader, "upload_stream", (options: UploadApiOptions, callback: UploadResponseCallback) => {
+      received.options = options;
+      return new Writable({
+        write(chunk: Buffer, _encoding, done) {
+          received.body.push(chunk);
+          done();
+        },
+        final(done) {
+          callback(undefined, { public_id: "abc", width: 16, height: 8 } as UploadApiResponse);
+          done();
+        },
+      });
+    });
+    return received;
+  }
+
+  // Records the URLs read through the CDN
+  function mockFetch() {
+    const urls: string[] = [];
+    mock.method(globalThis, "fetch", async (url: string) => {
+      urls.push(url);
+      return new Response(IMAGE, { headers: { "Content-Type": "image/png" } });
+    });
+    return urls;
+  }
+
+  it("stores uploads as sent, without an incoming transformation", async () => {
+    const received = mockUpload();
+    const stored = await provider.uploadImage({ file: IMAGE, filename: "a.png", mime: "image/png" });
+
+    assert.deepEqual(received.options, { resource_type: "image" });
+    assert.deepEqual(Buffer.concat(received.body), IMAGE);
+    assert.equal(stored.providerKey, "abc");
+    assert.deepEqual([stored.width, stored.height], [16, 8]);
+  });
+
+  it("picks quality and format on delivery", async () => {
+    mockUpload();
+    const { providerKey, rawUrl } = await provider.uploadImage({ file: IMAGE, filename: "a.png", mime: "image/png" });
+
+    assert.match(rawUrl, /^https:\/\/res\.cloudinary\.com\/demo\/image\/upload\/f_auto,q_auto\/abc\b/);
+    assert.deepEqual(await provider.getOriginal(providerKey, rawUrl), { url: rawUrl });
+
+    const variant = await provider.getVariant(providerKey, { size: "small" }, "image/png");
+    assert.ok("url" in variant);
+    assert.match(variant.url, /\/c_limit,f_auto,h_320,q_auto,w_320\/abc\b/);
+
+    const converted = await provider.getVariant(providerKey, { format: "webp" }, "image/png");
+    assert.ok("url" in converted);
+    assert.match(converted.url, /\/q_auto\/abc\.webp\b/);
+  });
+
+  it("reads originals back untransformed", async () => {
+    const urls = mockFetch();
+    const stream = await provider.getStream("abc");
+
+    assert.deepEqual(Buffer.concat(await stream.toArray()), IMAGE);
+    assert.match(urls[0], /\/image\/upload\/abc\b/);
+  });
+
+  it("proxies private images through keys rather than URLs", async () => {
+    assert.deepEqual(await provider.getOriginal("abc", "https://example.com/abc", { private: true }), { key: "abc" });
+
+    const variant = await provider.getVariant("abc", { size: "thumb", format: "webp" }, "image/png", { private: true });
+    assert.deepEqual(variant, { key: "abc:thumb:webp" });
+
+    const urls = mockFetch();
+    await provider.getStream("abc:thumb:webp");
+    assert.match(urls[0], /\/c_limit,h_200,q_auto,w_200\/abc\.webp\b/);
+  });
+});
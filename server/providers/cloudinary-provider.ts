@@ -1,5 +1,42 @@
-import { v2 as cloudinary } from "cloudinary";
-import { StorageProvider } from "./storage-provider.js";
+import { v2 as cloudinary, type UploadApiResponse } from "cloudinary";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeWebReadableStream } from "stream/web";
+import {
+  StorageProvider,
+  toNodeStream,
+  type ImageLocation,
+  type LocationAccess,
+  type ByteRange,
+  type StoredObjectStat,
+} from "./storage-provider.js";
+import {
+  VARIANT_SIZES,
+  VARIANT_NAMES,
+  OUTPUT_FORMAT_NAMES,
+  type VariantName,
+  type OutputFormat,
+  type VariantOptions,
+} from "../utils/variants.js";
+
+// Variants only exist on the CDN, so private ones are proxied under a key
+// naming the public id and the transformation: "<public id>:<size>:<format>"
+const getVariantKey = (providerKey: string, options: VariantOptions): string =>
+  `${providerKey}:${options.size ?? ""}:${options.format ?? ""}`;
+
+function parseVariantKey(key: string): { providerKey: string; options: VariantOptions } | null {
+  const match = /^(.+):(\w*):(\w*)$/.exec(key);
+  if (!match) return null;
+  const [, providerKey, size, format] = match;
+  if ((size && !VARIANT_NAMES.includes(size as VariantName))
+    || (format && !OUTPUT_FORMAT_NAMES.includes(format as OutputFormat))) {
+    return null;
+  }
+  const options: VariantOptions = {};
+  if (size) options.size = size as VariantName;
+  if (format) options.format = format as OutputFormat;
+  return { providerKey, options };
+}
 
 export class CloudinaryProvider implements StorageProvider {
   constructor() {
@@ -20,49 +57,103 @@ export class CloudinaryProvider implements StorageProvider {
     width?: number;
     height?: number;
   }> {
-    const buffer = input.file instanceof Buffer ? input.file : Buffer.from(await this.streamToBuffer(input.file));
-    
-    const result = await new Promise((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
+    // Streamed straight into Cloudinary's upload; a failing source aborts it.
+    // Stored as sent, byte for byte: quality and format are picked per request
+    // on delivery, where an upload option would re-encode the original.
+    const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+      const upload = cloudinary.uploader.upload_stream(
         {
           resource_type: "image",
-          quality: "auto",
-          fetch_format: "auto",
         },
         (error, result) => {
-          if (error) reject(error);
+          if (error || !result) reject(error ?? new Error("Cloudinary upload failed"));
           else resolve(result);
         }
-      ).end(buffer);
-    }) as any;
+      );
+      pipeline(toNodeStream(input.file), upload).catch(reject);
+    });
 
     return {
       providerKey: result.public_id,
-      rawUrl: result.secure_url,
+      rawUrl: cloudinary.url(result.public_id, { quality: "auto", fetch_format: "auto", secure: true }),
       width: result.width,
       height: result.height,
     };
   }
 
-  private async streamToBuffer(stream: ReadableStream<Uint8Array>): Promise<ArrayBuffer> {
-    const reader = stream.getReader();
-    const chunks: Uint8Array[] = [];
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
+  async delete(providerKey: string): Promise<void> {
+    const result = await cloudinary.uploader.destroy(providerKey, {
+      resource_type: "image",
+      invalidate: true,
+    });
+
+    if (result.result !== "ok" && result.result !== "not found") {
+      throw new Error(`Cloudinary delete failed: ${result.result}`);
     }
-    
-    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+  }
+
+  // Delivered straight from Cloudinary's CDN; private images are proxied from it
+  async getOriginal(providerKey: string, rawUrl: string, access: LocationAccess = {}): Promise<ImageLocation> {
+    return access.private ? { key: providerKey } : { url: rawUrl };
+  }
+
+  // Reads go through the CDN rather than the rate-limited Admin API
+  async getStream(providerKey: string, range?: ByteRange): Promise<Readable> {
+    const res = await fetch(this.getDeliveryUrl(providerKey), {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+
+    if (!res.ok || !res.body || (range && res.status !== 206)) {
+      await res.body?.cancel();
+      throw new Error(`Cloudinary read failed with status ${res.status}`);
     }
-    
-    return result.buffer;
+    return Readable.fromWeb(res.body as unknown as NodeWebReadableStream<Uint8Array>);
+  }
+
+  async stat(providerKey: string): Promise<StoredObjectStat | null> {
+    const res = await fetch(this.getDeliveryUrl(providerKey), { method: "HEAD" });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Cloudinary stat failed with status ${res.status}`);
+
+    const lastModified = res.headers.get("last-modified");
+    return {
+      size: Number(res.headers.get("content-length")),
+      contentType: res.headers.get("content-type") ?? undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined,
+    };
+  }
+
+  async exists(providerKey: string): Promise<boolean> {
+    return (await this.stat(providerKey)) !== null;
+  }
+
+  // Cloudinary resizes and converts on its CDN
+  async getVariant(
+    providerKey: string,
+    options: VariantOptions,
+    _mime: string,
+    access: LocationAccess = {},
+  ): Promise<ImageLocation> {
+    return access.private
+      ? { key: getVariantKey(providerKey, options) }
+      : { url: this.getVariantUrl(providerKey, options) };
+  }
+
+  // "limit" only ever scales down; the format is automatic unless asked for
+  private getVariantUrl(providerKey: string, options: VariantOptions): string {
+    const size = options.size ? VARIANT_SIZES[options.size] : undefined;
+    return cloudinary.url(providerKey, {
+      ...(size && { width: size, height: size, crop: "limit" }),
+      ...(options.format ? { format: options.format === "jpeg" ? "jpg" : options.format } : { fetch_format: "auto" }),
+      quality: "auto",
+      secure: true,
+    });
+  }
+
+  // The original as uploaded, without transformations, or a variant by its key
+  private getDeliveryUrl(key: string): string {
+    const variant = parseVariantKey(key);
+    if (variant) return this.getVariantUrl(variant.providerKey, variant.options);
+    return cloudinary.url(key, { resource_type: "image", secure: true });
   }
 }
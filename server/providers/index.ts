@@ -0,0 +1,29 @@
+import { type Image } from "@shared/schema";
+import { StorageProvider } from "./storage-provider.js";
+import { CloudinaryProvider } from "./cloudinary-provider.js";
+import { LocalProvider } from "./local-provider.js";
+import { S3Provider } from "./s3-provider.js";
+
+export type ProviderName = Image["provider"];
+
+const providers = new Map<ProviderName, StorageProvider>();
+
+// Returns the provider for a given name, creating it on first use
+export function getProvider(name: ProviderName): StorageProvider {
+  let provider = providers.get(name);
+
+  if (!provider) {
+    provider = name === "cloudinary" ? new CloudinaryProvider()
+      : name === "s3" ? new S3Provider()
+      : new LocalProvider();
+    providers.set(name, provider);
+  }
+
+  return provider;
+}
+
+// Name of the provider new uploads go to unless a STORAGE_RULES rule says otherwise
+export function getDefaultProviderName(): ProviderName {
+  const name = process.env.STORAGE_PROVIDER;
+  return name === "cloudinary" || name === "s3" ? name : "local";
+}
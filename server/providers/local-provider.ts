@@ -1,11 +1,29 @@
 import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
 import path from "path";
-import { StorageProvider } from "./storage-provider.js";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  StorageProvider,
+  toNodeStream,
+  type ImageLocation,
+  type ByteRange,
+  type StoredObjectStat,
+} from "./storage-provider.js";
 import { generateImageId } from "../utils/id-generator.js";
 import { getFileExtension } from "../utils/validation.js";
+import { captureHead, getImageDimensions } from "../utils/dimensions.js";
+import {
+  renderVariant,
+  getVariantFilename,
+  getVariantFilenames,
+  type VariantOptions,
+} from "../utils/variants.js";
 
 export class LocalProvider implements StorageProvider {
   private uploadDir = path.join(process.cwd(), "uploads");
+  // Variants being rendered right now, so concurrent requests share one render
+  private pendingVariants = new Map<string, Promise<void>>();
 
   async uploadImage(input: {
     file: Buffer | ReadableStream<Uint8Array>;
@@ -25,14 +43,19 @@ export class LocalProvider implements StorageProvider {
     const filename = `${id}.${ext}`;
     const filePath = path.join(this.uploadDir, filename);
 
-    // Convert stream to buffer if needed
-    const buffer = input.file instanceof Buffer ? input.file : Buffer.from(await this.streamToBuffer(input.file));
-    
-    // Write file to disk
-    await fs.writeFile(filePath, buffer);
+    // Stream to a temp file so a half-written upload is never served,
+    // keeping only the first bytes for the dimensions
+    const head = captureHead();
+    const tempPath = `${filePath}.${generateImageId()}.tmp`;
+    try {
+      await pipeline(toNodeStream(input.file), head.stream, createWriteStream(tempPath));
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
 
-    // Get image dimensions (basic implementation)
-    const dimensions = await this.getImageDimensions(buffer, input.mime);
+    const dimensions = getImageDimensions(head.head(), input.mime);
 
     return {
       providerKey: filename,
@@ -42,77 +65,84 @@ export class LocalProvider implements StorageProvider {
     };
   }
 
-  private async streamToBuffer(stream: ReadableStream<Uint8Array>): Promise<ArrayBuffer> {
-    const reader = stream.getReader();
-    const chunks: Uint8Array[] = [];
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-    }
-    
-    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+  async delete(providerKey: string): Promise<void> {
+    // Keys are bare filenames; refuse anything that would escape the upload directory
+    const filename = path.basename(providerKey);
+
+    for (const name of Array.from(new Set([filename, ...getVariantFilenames(filename)]))) {
+      try {
+        await fs.unlink(path.join(this.uploadDir, name));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
     }
-    
-    return result.buffer;
   }
 
-  private async getImageDimensions(buffer: Buffer, mime: string): Promise<{ width: number; height: number } | null> {
-    // Basic dimension detection for common formats
+  async getOriginal(providerKey: string): Promise<ImageLocation> {
+    return { filePath: this.getFilePath(providerKey) };
+  }
+
+  async getStream(providerKey: string, range?: ByteRange): Promise<Readable> {
+    const stream = createReadStream(this.getFilePath(providerKey), range);
+    // Surface a missing file here rather than as a stream error
+    await new Promise<void>((resolve, reject) => {
+      stream.once("open", () => resolve());
+      stream.once("error", reject);
+    });
+    return stream;
+  }
+
+  async stat(providerKey: string): Promise<StoredObjectStat | null> {
     try {
-      if (mime === "image/png") {
-        return this.getPngDimensions(buffer);
-      } else if (mime === "image/jpeg" || mime === "image/jpg") {
-        return this.getJpegDimensions(buffer);
-      }
+      const stat = await fs.stat(this.getFilePath(providerKey));
+      return { size: stat.size, lastModified: stat.mtime };
     } catch (error) {
-      console.error("Error getting image dimensions:", error);
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
     }
-    return null;
   }
 
-  private getPngDimensions(buffer: Buffer): { width: number; height: number } | null {
-    if (buffer.length < 24) return null;
-    
-    // PNG signature check
-    if (buffer.readUInt32BE(0) !== 0x89504e47 || buffer.readUInt32BE(4) !== 0x0d0a1a0a) {
-      return null;
-    }
-    
-    const width = buffer.readUInt32BE(16);
-    const height = buffer.readUInt32BE(20);
-    
-    return { width, height };
+  async exists(providerKey: string): Promise<boolean> {
+    return (await this.stat(providerKey)) !== null;
   }
 
-  private getJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
-    let offset = 2; // Skip initial 0xFFD8
-    
-    while (offset < buffer.length) {
-      if (buffer[offset] !== 0xFF) break;
-      
-      const marker = buffer[offset + 1];
-      
-      // SOF (Start of Frame) markers
-      if ((marker >= 0xC0 && marker <= 0xC3) || (marker >= 0xC5 && marker <= 0xC7) || 
-          (marker >= 0xC9 && marker <= 0xCB) || (marker >= 0xCD && marker <= 0xCF)) {
-        const height = buffer.readUInt16BE(offset + 5);
-        const width = buffer.readUInt16BE(offset + 7);
-        return { width, height };
-      }
-      
-      // Skip this segment
-      const segmentLength = buffer.readUInt16BE(offset + 2);
-      offset += segmentLength + 2;
+  // Variants are cached next to the original
+  async getVariant(providerKey: string, options: VariantOptions, mime: string): Promise<ImageLocation> {
+    const filename = path.basename(providerKey);
+    const filePath = path.join(this.uploadDir, getVariantFilename(filename, options));
+
+    try {
+      await fs.access(filePath);
+      return { filePath };
+    } catch {
+      // Not cached yet
     }
-    
-    return null;
+
+    let pending = this.pendingVariants.get(filePath);
+    if (!pending) {
+      pending = this.writeVariant(path.join(this.uploadDir, filename), filePath, options, mime)
+        .finally(() => this.pendingVariants.delete(filePath));
+      this.pendingVariants.set(filePath, pending);
+    }
+    await pending;
+
+    return { filePath };
+  }
+
+  // Variant filenames work too; basename keeps any key inside the upload directory
+  private getFilePath(providerKey: string): string {
+    return path.join(this.uploadDir, path.basename(providerKey));
+  }
+
+  // Renders to a temp file first so a half-written variant is never served
+  private async writeVariant(sourcePath: string, filePath: string, options: VariantOptions, mime: string): Promise<void> {
+    const original = await fs.readFile(sourcePath);
+    const rendered = await renderVariant(original, mime, options);
+
+    const tempPath = `${filePath}.${generateImageId()}.tmp`;
+    await fs.writeFile(tempPath, rendered);
+    await fs.rename(tempPath, filePath);
   }
 }
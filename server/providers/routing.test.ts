@@ -0,0 +1,91 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Image } from "@shared/schema";
+import { getProvider } from "./index.js";
+import { locateImage } from "./routing.js";
+
+const IMAGE = Buffer.from("replicated bytes");
+
+describe("locateImage", () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "routing-test-"));
+  const cwd = process.cwd();
+  let image: Image;
+
+  // The local provider (the replica here) stores under ./uploads; the primary
+  // is Cloudinary, which redirects to its CDN
+  before(async () => {
+    process.chdir(tempDir);
+    process.env.CLOUDINARY_CLOUD_NAME = "demo";
+    const replica = await getProvider("local").uploadImage({ file: IMAGE, filename: "a.png", mime: "image/png" });
+
+    image = {
+      id: "abc",
+      provider: "cloudinary",
+      providerKey: "primary-key",
+      rawUrl: "https://cdn.example/primary-key",
+      replicaProvider: "local",
+      replicaKey: replica.providerKey,
+      replicaUrl: replica.rawUrl,
+      mime: "image/png",
+      size: IMAGE.length,
+    } as Image;
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const mockPrimary = (exists: () => Promise<boolean>) =>
+    mock.method(getProvider("cloudinary"), "exists", exists);
+
+  it("redirects to the primary when it has the object", async () => {
+    const exists = mockPrimary(async () => true);
+
+    const located = await locateImage(image, {});
+    assert.deepEqual(located?.location, { url: image.rawUrl });
+    assert.equal(located?.provider, getProvider("cloudinary"));
+    assert.deepEqual(exists.mock.calls.map((call) => call.arguments), [["primary-key"]]);
+  });
+
+  it("falls back to the replica when the primary has lost the object", async () => {
+    mockPrimary(async () => false);
+
+    const located = await locateImage(image, {});
+    assert.equal(located?.provider, getProvider("local"));
+    assert.ok(located && "filePath" in located.location);
+    assert.deepEqual(fs.readFileSync(located.location.filePath), IMAGE);
+  });
+
+  it("falls back to the replica when the primary can't be checked", async () => {
+    mockPrimary(async () => {
+      throw new Error("CDN unavailable");
+    });
+    mock.method(console, "error", () => {});
+
+    const located = await locateImage(image, {});
+    assert.equal(located?.provider, getProvider("local"));
+  });
+
+  it("redirects without checking when there is no replica to fall back to", async () => {
+    const exists = mockPrimary(async () => false);
+    const unreplicated = { ...image, replicaProvider: null, replicaKey: null, replicaUrl: null };
+
+    assert.deepEqual((await locateImage(unreplicated, {}))?.location, { url: image.rawUrl });
+    assert.equal(exists.mock.callCount(), 0);
+  });
+
+  it("is null when neither copy has the object", async () => {
+    mockPrimary(async () => false);
+    const lost = { ...image, replicaKey: "missing.png" };
+
+    assert.equal(await locateImage(lost, {}), null);
+  });
+});
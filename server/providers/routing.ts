@@ -0,0 +1,218 @@
+import fs from "fs/promises";
+import { imageProviders, type Image } from "@shared/schema";
+import { getProvider, getDefaultProviderName, type ProviderName } from "./index.js";
+import {
+  toWebStream,
+  type StorageProvider,
+  type ImageLocation,
+  type LocationAccess,
+  type StoredObjectStat,
+} from "./storage-provider.js";
+import type { StrippedImage } from "../utils/metadata.js";
+import type { VariantOptions } from "../utils/variants.js";
+
+// Which provider each upload goes to, and which one (if any) keeps a mirror
+// copy. Reads use the row's provider and fall back to the replica when that
+// fails, so the two copies can live on entirely different backends.
+
+export interface StorageTarget {
+  provider: ProviderName;
+  replica: ProviderName | null;
+}
+
+// A rule matches on MIME type (`image/gif`, `image/*`) or on size (`>5MB`)
+interface StorageRule {
+  mime?: string;
+  minSize?: number; // bytes; matches larger uploads
+  target: StorageTarget;
+}
+
+export interface StoragePolicy {
+  rules: StorageRule[]; // first match wins
+  fallback: StorageTarget;
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+function parseProviderName(value: string): ProviderName {
+  const name = value.trim().toLowerCase();
+  if (!(imageProviders as readonly string[]).includes(name)) {
+    throw new Error(`Unknown storage provider "${value}"; expected one of: ${imageProviders.join(", ")}`);
+  }
+  return name as ProviderName;
+}
+
+// "s3" or "s3+local" (primary, then the replica)
+function parseTarget(value: string): StorageTarget {
+  const [primary, replica, ...rest] = value.split("+");
+  const target = { provider: parseProviderName(primary), replica: replica ? parseProviderName(replica) : null };
+  if (rest.length > 0 || target.replica === target.provider) {
+    throw new Error(`Invalid storage target "${value}"; use "provider" or "provider+replica"`);
+  }
+  return target;
+}
+
+function parseRule(value: string): StorageRule {
+  const separator = value.lastIndexOf("=");
+  if (separator <= 0) {
+    throw new Error(`Invalid storage rule "${value}"; expected condition=provider`);
+  }
+  const condition = value.slice(0, separator).trim();
+  const target = parseTarget(value.slice(separator + 1));
+
+  const size = /^>\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(condition);
+  if (size) {
+    return { minSize: Math.floor(Number(size[1]) * SIZE_UNITS[(size[2] || "b").toLowerCase()]), target };
+  }
+  if (/^[\w.+-]+\/([\w.+-]+|\*)$/.test(condition)) {
+    return { mime: condition.toLowerCase(), target };
+  }
+  throw new Error(`Invalid storage rule condition "${condition}"; use a MIME type or a size like >5MB`);
+}
+
+// STORAGE_PROVIDER picks the default target, STORAGE_REPLICA an optional
+// mirror for it, and STORAGE_RULES overrides both per upload, e.g.
+// "image/gif=local,>5MB=s3+local". Providers named here are created up front
+// so missing credentials show at startup rather than on the first upload.
+export function getStoragePolicy(): StoragePolicy {
+  const replica = process.env.STORAGE_REPLICA ? parseProviderName(process.env.STORAGE_REPLICA) : null;
+  const fallback = { provider: getDefaultProviderName(), replica };
+  if (fallback.replica === fallback.provider) fallback.replica = null;
+
+  const rules = (process.env.STORAGE_RULES || "")
+    .split(",")
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .map(parseRule);
+
+  for (const target of [fallback, ...rules.map((rule) => rule.target)]) {
+    getProvider(target.provider);
+    if (target.replica) getProvider(target.replica);
+  }
+  return { rules, fallback };
+}
+
+function matchesRule(rule: StorageRule, upload: { mime: string; size: number }): boolean {
+  if (rule.minSize !== undefined) return upload.size > rule.minSize;
+  if (rule.mime?.endsWith("/*")) return upload.mime.startsWith(rule.mime.slice(0, -1));
+  return upload.mime === rule.mime;
+}
+
+export function chooseStorageTarget(policy: StoragePolicy, upload: { mime: string; size: number }): StorageTarget {
+  return policy.rules.find((rule) => matchesRule(rule, upload))?.target ?? policy.fallback;
+}
+
+// Where an image's bytes are stored, as recorded on its row
+export type StoredLocation = Pick<Image, "provider" | "providerKey" | "rawUrl" | "replicaProvider" | "replicaKey" | "replicaUrl">;
+
+export type StoredImage = StoredLocation & {
+  width?: number;
+  height?: number;
+};
+
+// Uploads to the chosen provider and its replica side by side, each reading
+// its own stream of the image. A failed replica is logged and left out rather
+// than failing the upload; a failed primary fails it.
+export async function storeImage(
+  policy: StoragePolicy,
+  image: StrippedImage,
+  details: { filename: string; mime: string },
+): Promise<StoredImage> {
+  const target = chooseStorageTarget(policy, { mime: details.mime, size: image.size });
+  const upload = (name: ProviderName) => getProvider(name).uploadImage({
+    file: toWebStream(image.open()),
+    filename: details.filename,
+    mime: details.mime,
+  });
+
+  const [primary, replica] = await Promise.allSettled([
+    upload(target.provider),
+    target.replica ? upload(target.replica) : Promise.resolve(null),
+  ]);
+
+  if (primary.status === "rejected") {
+    if (replica.status === "fulfilled" && replica.value && target.replica) {
+      await getProvider(target.replica).delete(replica.value.providerKey).catch(() => {});
+    }
+    throw primary.reason;
+  }
+  if (replica.status === "rejected") {
+    console.error(`Replica upload to ${target.replica} failed:`, replica.reason);
+  }
+  const copy = replica.status === "fulfilled" ? replica.value : null;
+
+  return {
+    provider: target.provider,
+    providerKey: primary.value.providerKey,
+    rawUrl: primary.value.rawUrl,
+    width: primary.value.width ?? copy?.width,
+    height: primary.value.height ?? copy?.height,
+    replicaProvider: copy ? target.replica : null,
+    replicaKey: copy?.providerKey ?? null,
+    replicaUrl: copy?.rawUrl ?? null,
+  };
+}
+
+// The stored copies of an image, primary first
+function getCopies(image: StoredLocation): { provider: ProviderName; providerKey: string; rawUrl: string }[] {
+  const copies = [{ provider: image.provider, providerKey: image.providerKey, rawUrl: image.rawUrl }];
+  if (image.replicaProvider && image.replicaKey) {
+    copies.push({ provider: image.replicaProvider, providerKey: image.replicaKey, rawUrl: image.replicaUrl ?? "" });
+  }
+  return copies;
+}
+
+export interface LocatedImage {
+  provider: StorageProvider;
+  location: ImageLocation;
+  stat?: StoredObjectStat; // for locations to proxy
+}
+
+// Finds a readable copy of the original or a variant: the primary, or the
+// replica when the primary errors or no longer has the object. A redirect
+// can't fall back once it's sent, so while another copy is left the object
+// is checked first. Null when no copy has it.
+export async function locateImage(
+  image: Image,
+  variant: VariantOptions,
+  access: LocationAccess = {},
+): Promise<LocatedImage | null> {
+  let failure: unknown;
+
+  const copies = getCopies(image);
+  for (const copy of copies) {
+    try {
+      const provider = getProvider(copy.provider);
+      const location = variant.size || variant.format
+        ? await provider.getVariant(copy.providerKey, variant, image.mime, access)
+        : await provider.getOriginal(copy.providerKey, copy.rawUrl, access);
+
+      if ("url" in location) {
+        const isLast = copy === copies[copies.length - 1];
+        if (isLast || await provider.exists(copy.providerKey)) return { provider, location };
+        continue;
+      }
+      if ("filePath" in location) {
+        const found = await fs.access(location.filePath).then(() => true, () => false);
+        if (found) return { provider, location };
+        continue;
+      }
+
+      const stat = await provider.stat(location.key);
+      if (stat) return { provider, location, stat };
+    } catch (error) {
+      console.error(`Could not read image ${image.id} from ${copy.provider}:`, error);
+      failure = error;
+    }
+  }
+
+  if (failure) throw failure;
+  return null;
+}
+
+// Removes every stored copy; the record itself is the caller's
+export async function deleteStoredCopies(image: StoredLocation): Promise<void> {
+  for (const copy of getCopies(image)) {
+    await getProvider(copy.provider).delete(copy.providerKey);
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, it, before, beforeEach, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import sharp from "sharp";
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+import { S3Provider, type S3Options } from "./s3-provider.js";
+
+// Errors shaped like the SDK's: a name, and the response status in $metadata
+function s3Error(name: string, httpStatusCode: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+// Stands in for the bucket behind S3Client#send
+class FakeBucket {
+  objects = new Map<string, { body: Buffer; contentType?: string }>();
+  failDeletes = false;
+  headError?: Error;
+
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof PutObjectCommand) {
+      const { Key, Body, ContentType } = command.input;
+      this.objects.set(Key!, { body: await toBuffer(Body), contentType: ContentType });
+      return { ETag: '"etag"' };
+    }
+    if (command instanceof HeadObjectCommand) {
+      if (this.headError) throw this.headError;
+      const object = this.objects.get(command.input.Key!);
+      if (!object) throw s3Error("NotFound", 404);
+      return { ContentLength: object.body.length, ContentType: object.contentType, LastModified: new Date(0) };
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = this.objects.get(command.input.Key!);
+      if (!object) throw s3Error("NoSuchKey", 404);
+      const range = /^bytes=(\d+)-(\d+)$/.exec(command.input.Range ?? "");
+      const body = range ? object.body.subarray(Number(range[1]), Number(range[2]) + 1) : object.body;
+      return { Body: Readable.from([body]) };
+    }
+    if (command instanceof DeleteObjectsCommand) {
+      const keys = command.input.Delete!.Objects!.map((object) => object.Key!);
+      if (this.failDeletes) {
+        return { Errors: [{ Key: keys[0], Code: "AccessDenied", Message: "Access Denied" }] };
+      }
+      for (const key of keys) this.objects.delete(key);
+      return { Errors: [] };
+    }
+    throw new Error(`Unexpected command ${(command as object).constructor.name}`);
+  }
+}
+
+async function toBuffer(body: unknown): Promise<Buffer> {
+  if (typeof body === "string" || body instanceof Uint8Array) return Buffer.from(body);
+  return Buffer.concat(await (body as Readable).toArray());
+}
+
+const options = (changes: Partial<S3Options> = {}): S3Options => ({
+  bucket: "pics",
+  region: "eu-west-1",
+  forcePathStyle: false,
+  prefix: "uploads/",
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "secret",
+  delivery: "proxy",
+  presignExpiresIn: 600,
+  ...changes,
+});
+
+describe("S3Provider", () => {
+  const bucket = new FakeBucket();
+  const send = mock.method(S3Client.prototype, "send", (command: unknown) => bucket.send(command));
+  let png: Buffer;
+
+  before(async () => {
+    png = await sharp({ create: { width: 400, height: 200, channels: 3, background: "#c04080" } }).png().toBuffer();
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    bucket.objects.clear();
+    bucket.failDeletes = false;
+    bucket.headError = undefined;
+  });
+
+  const upload = (provider: S3Provider, file: Buffer | ReadableStream<Uint8Array> = png) =>
+    provider.uploadImage({ file, filename: "a.png", mime: "image/png" });
+
+  it("needs a bucket", () => {
+    assert.throws(() => new S3Provider(options({ bucket: "" })), /S3_BUCKET/);
+  });
+
+  it("uploads under the prefix with the type and dimensions", async () => {
+    const provider = new S3Provider(options());
+    const stored = await upload(provider, Readable.toWeb(Readable.from([png])) as unknown as ReadableStream<Uint8Array>);
+
+    assert.match(stored.providerKey, /^uploads\/\w+\.png$/);
+    assert.deepEqual([stored.width, stored.height], [400, 200]);
+    assert.equal(stored.rawUrl, `https://pics.s3.eu-west-1.amazonaws.com/${stored.providerKey}`);
+
+    const object = bucket.objects.get(stored.providerKey);
+    assert.deepEqual(object?.body, png);
+    assert.equal(object?.contentType, "image/png");
+  });
+
+  it("streams objects back, whole or a range", async () => {
+    const provider = new S3Provider(options());
+    const { providerKey } = await upload(provider);
+
+    assert.deepEqual(Buffer.concat(await (await provider.getStream(providerKey)).toArray()), png);
+    const range = await provider.getStream(providerKey, { start: 1, end: 3 });
+    assert.deepEqual(Buffer.concat(await range.toArray()), png.subarray(1, 4));
+  });
+
+  it("reports size and type, and null for missing objects", async () => {
+    const provider = new S3Provider(options());
+    const { providerKey } = await upload(provider);
+
+    assert.deepEqual(await provider.stat(providerKey), { size: png.length, contentType: "image/png", lastModified: new Date(0) });
+    assert.equal(await provider.exists(providerKey), true);
+    assert.equal(await provider.stat("uploads/missing.png"), null);
+    assert.equal(await provider.exists("uploads/missing.png"), false);
+    await assert.rejects(provider.getStream("uploads/missing.png"), { name: "NoSuchKey" });
+  });
+
+  it("treats any 404 as missing and passes other errors on", async () => {
+    const provider = new S3Provider(options());
+
+    bucket.headError = s3Error("UnknownError", 404);
+    assert.equal(await provider.stat("uploads/a.png"), null);
+
+    bucket.headError = s3Error("Forbidden", 403);
+    await assert.rejects(provider.stat("uploads/a.png"), { name: "Forbidden" });
+  });
+
+  it("deletes the object with its variants, quietly when already gone", async () => {
+    const provider = new S3Provider(options());
+    const { providerKey } = await upload(provider);
+    await provider.getVariant(providerKey, { size: "thumb" }, "image/png");
+    assert.equal(bucket.objects.size, 2);
+
+    await provider.delete(providerKey);
+    assert.equal(bucket.objects.size, 0);
+    await provider.delete(providerKey);
+
+    bucket.failDeletes = true;
+    await assert.rejects(provider.delete(providerKey), /S3 delete failed .*AccessDenied/);
+  });
+
+  it("renders each variant once and caches it next to the original", async () => {
+    const provider = new S3Provider(options());
+    const { providerKey } = await upload(provider);
+
+    const [first, second] = await Promise.all([
+      provider.getVariant(providerKey, { size: "thumb", format: "webp" }, "image/png"),
+      provider.getVariant(providerKey, { size: "thumb", format: "webp" }, "image/png"),
+    ]);
+    assert.deepEqual(first, second);
+    assert.ok("key" in first);
+    assert.match(first.key, /^uploads\/\w+.*\.webp$/);
+
+    const variant = bucket.objects.get(first.key);
+    assert.equal(variant?.contentType, "image/webp");
+    assert.equal((await sharp(variant!.body).metadata()).width, 200);
+    const puts = send.mock.calls.map((call) => call.arguments[0])
+      .filter((command) => command instanceof PutObjectCommand && command.input.Key === first.key);
+    assert.equal(puts.length, 1);
+  });
+
+  describe("delivery", () => {
+    it("proxies in proxy mode", async () => {
+      const provider = new S3Provider(options());
+      assert.deepEqual(await provider.getOriginal("uploads/a.png", ""), { key: "uploads/a.png" });
+    });
+
+    it("redirects to a short-lived signed URL in presigned mode", async () => {
+      const provider = new S3Provider(options({ delivery: "presigned" }));
+      const location = await provider.getOriginal("uploads/a.png", "");
+
+      assert.ok("url" in location);
+      assert.equal(location.expiresIn, 600);
+      const url = new URL(location.url);
+      assert.equal(url.origin + url.pathname, "https://pics.s3.eu-west-1.amazonaws.com/uploads/a.png");
+      assert.equal(url.searchParams.get("X-Amz-Expires"), "600");
+      assert.ok(url.searchParams.get("X-Amz-Signature"));
+    });
+
+    it("redirects to the public URL in public mode", async () => {
+      const cdn = new S3Provider(options({ delivery: "public", publicUrl: "https://cdn.example.com/images" }));
+      assert.deepEqual(await cdn.getOriginal("uploads/a b.png", ""), { url: "https://cdn.example.com/images/uploads/a%20b.png" });
+
+      const minio = new S3Provider(options({ delivery: "public", endpoint: "http://localhost:9000", forcePathStyle: true }));
+      assert.deepEqual(await minio.getOriginal("uploads/a.png", ""), { url: "http://localhost:9000/pics/uploads/a.png" });
+    });
+
+    it("always proxies private images", async () => {
+      for (const delivery of ["proxy", "presigned", "public"] as const) {
+        const provider = new S3Provider(options({ delivery, publicUrl: "https://cdn.example.com" }));
+        assert.deepEqual(await provider.getOriginal("uploads/a.png", "", { private: true }), { key: "uploads/a.png" });
+      }
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import {
+  StorageProvider,
+  toNodeStream,
+  type ImageLocation,
+  type LocationAccess,
+  type ByteRange,
+  type StoredObjectStat,
+} from "./storage-provider.js";
+import { generateImageId } from "../utils/id-generator.js";
+import { getFileExtension } from "../utils/validation.js";
+import { captureHead, getImageDimensions } from "../utils/dimensions.js";
+import {
+  renderVariant,
+  getVariantFilename,
+  getVariantFilenames,
+  getVariantMime,
+  type VariantOptions,
+} from "../utils/variants.js";
+
+// How /raw hands out S3 objects: streamed through this server, redirected to a
+// short-lived signed URL, or redirected to a public bucket/CDN URL
+export const S3_DELIVERY_MODES = ["proxy", "presigned", "public"] as const;
+export type S3DeliveryMode = typeof S3_DELIVERY_MODES[number];
+
+export interface S3Options {
+  bucket: string;
+  region: string;
+  endpoint?: string;       // MinIO, R2 and other S3-compatible services
+  forcePathStyle: boolean; // bucket in the path rather than the hostname
+  prefix: string;          // key prefix inside the bucket, "" or ending in "/"
+  accessKeyId?: string;    // unset: the SDK's default credential chain
+  secretAccessKey?: string;
+  delivery: S3DeliveryMode;
+  publicUrl?: string;      // base URL objects are readable at in public mode
+  presignExpiresIn: number; // seconds
+}
+
+export function getS3Options(): S3Options {
+  const delivery = (process.env.S3_DELIVERY || "proxy").toLowerCase();
+  const prefix = (process.env.S3_PREFIX || "").replace(/^\/+|\/+$/g, "");
+  const expiresIn = Number(process.env.S3_PRESIGN_EXPIRES);
+
+  return {
+    bucket: process.env.S3_BUCKET || "",
+    region: process.env.S3_REGION || process.env.AWS_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    prefix: prefix ? `${prefix}/` : "",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    delivery: (S3_DELIVERY_MODES as readonly string[]).includes(delivery) ? delivery as S3DeliveryMode : "proxy",
+    publicUrl: process.env.S3_PUBLIC_URL?.replace(/\/+$/, "") || undefined,
+    // Signed URLs last at most a week
+    presignExpiresIn: Number.isInteger(expiresIn) && expiresIn > 0 ? Math.min(expiresIn, 7 * 24 * 3600) : 3600,
+  };
+}
+
+// HEAD answers a bare 404 ("NotFound"), GET a NoSuchKey error
+function isNotFound(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  if ("name" in error && (error.name === "NotFound" || error.name === "NoSuchKey")) return true;
+
+  const metadata = "$metadata" in error ? error.$metadata : undefined;
+  return typeof metadata === "object" && metadata !== null && "httpStatusCode" in metadata
+    && metadata.httpStatusCode === 404;
+}
+
+export class S3Provider implements StorageProvider {
+  private options: S3Options;
+  private client: S3Client;
+  // Variants being rendered right now, so concurrent requests share one render
+  private pendingVariants = new Map<string, Promise<void>>();
+
+  constructor(options: S3Options = getS3Options()) {
+    if (!options.bucket) {
+      throw new Error("S3_BUCKET must be set to use the s3 storage provider");
+    }
+
+    this.options = options;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+      // Not every S3-compatible service understands the SDK's default checksums
+      ...(options.endpoint && {
+        requestChecksumCalculation: "WHEN_REQUIRED",
+        responseChecksumValidation: "WHEN_REQUIRED",
+      }),
+    });
+  }
+
+  async uploadImage(input: {
+    file: Buffer | ReadableStream<Uint8Array>;
+    filename: string;
+    mime: string;
+  }): Promise<{
+    providerKey: string;
+    rawUrl: string;
+    width?: number;
+    height?: number;
+  }> {
+    const key = `${this.options.prefix}${generateImageId()}.${getFileExtension(input.mime)}`;
+
+    // Multipart upload of the stream as it arrives, keeping only the first
+    // bytes for the dimensions; a failing source aborts the upload
+    const head = captureHead();
+    const source = toNodeStream(input.file);
+    const body = source.pipe(head.stream);
+    source.on("error", (error) => body.destroy(error));
+
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: input.mime,
+        CacheControl: "public, immutable, max-age=31536000",
+      },
+    }).done();
+
+    const dimensions = getImageDimensions(head.head(), input.mime);
+
+    return {
+      providerKey: key,
+      rawUrl: this.getObjectUrl(key),
+      width: dimensions?.width,
+      height: dimensions?.height,
+    };
+  }
+
+  async delete(providerKey: string): Promise<void> {
+    const keys = [providerKey, ...getVariantFilenames(path.posix.basename(providerKey)).map((name) => this.getSiblingKey(providerKey, name))];
+
+    // Missing keys count as deleted
+    const result = await this.client.send(new DeleteObjectsCommand({
+      Bucket: this.options.bucket,
+      Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+    }));
+
+    const failed = result.Errors?.find((error) => error.Code !== "NoSuchKey");
+    if (failed) {
+      throw new Error(`S3 delete failed for ${failed.Key}: ${failed.Code} ${failed.Message ?? ""}`.trim());
+    }
+  }
+
+  async getOriginal(providerKey: string, _rawUrl: string, access: LocationAccess = {}): Promise<ImageLocation> {
+    return this.locate(providerKey, access);
+  }
+
+  // Variants are cached in the bucket next to the original
+  async getVariant(
+    providerKey: string,
+    options: VariantOptions,
+    mime: string,
+    access: LocationAccess = {},
+  ): Promise<ImageLocation> {
+    const key = this.getSiblingKey(providerKey, getVariantFilename(path.posix.basename(providerKey), options));
+
+    if (!(await this.exists(key))) {
+      let pending = this.pendingVariants.get(key);
+      if (!pending) {
+        pending = this.writeVariant(providerKey, key, options, mime)
+          .finally(() => this.pendingVariants.delete(key));
+        this.pendingVariants.set(key, pending);
+      }
+      await pending;
+    }
+
+    return this.locate(key, access);
+  }
+
+  async getStream(providerKey: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: providerKey,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return object.Body as Readable;
+  }
+
+  async stat(providerKey: string): Promise<StoredObjectStat | null> {
+    try {
+      const object = await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: providerKey }));
+      return {
+        size: object.ContentLength ?? 0,
+        contentType: object.ContentType,
+        lastModified: object.LastModified,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async exists(providerKey: string): Promise<boolean> {
+    return (await this.stat(providerKey)) !== null;
+  }
+
+  // Private images are always proxied: even a signed URL keeps working for
+  // its whole lifetime, without counting views
+  private async locate(key: string, access: LocationAccess): Promise<ImageLocation> {
+    const { bucket, delivery, presignExpiresIn } = this.options;
+
+    if (access.private) {
+      return { key };
+    }
+    if (delivery === "public") {
+      return { url: this.getObjectUrl(key) };
+    }
+    if (delivery === "presigned") {
+      const command = new GetObjectCommand({ Bucket: bucket, Key: key });
+      const url = await getSignedUrl(this.client, command, { expiresIn: presignExpiresIn });
+      return { url, expiresIn: presignExpiresIn };
+    }
+    return { key };
+  }
+
+  private async writeVariant(sourceKey: string, key: string, options: VariantOptions, mime: string): Promise<void> {
+    const original = Buffer.concat(await (await this.getStream(sourceKey)).toArray());
+    const rendered = await renderVariant(original, mime, options);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: rendered,
+      ContentType: getVariantMime(mime, options),
+      CacheControl: "public, immutable, max-age=31536000",
+    }));
+  }
+
+  // Key of a file stored alongside `key`, under the same prefix
+  private getSiblingKey(key: string, name: string): string {
+    const dir = path.posix.dirname(key);
+    return dir === "." ? name : `${dir}/${name}`;
+  }
+
+  // Public URL when configured, otherwise the object's own S3 URL
+  private getObjectUrl(key: string): string {
+    const { bucket, region, endpoint, forcePathStyle, publicUrl } = this.options;
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+
+    if (publicUrl) return `${publicUrl}/${encodedKey}`;
+    if (endpoint) {
+      const url = new URL(endpoint);
+      const base = url.pathname.replace(/\/+$/, "");
+      return forcePathStyle
+        ? `${url.origin}${base}/${bucket}/${encodedKey}`
+        : `${url.protocol}//${bucket}.${url.host}${base}/${encodedKey}`;
+    }
+    return forcePathStyle
+      ? `https://s3.${region}.amazonaws.com/${bucket}/${encodedKey}`
+      : `https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`;
+  }
+}
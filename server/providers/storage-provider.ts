@@ -1,3 +1,34 @@
+import { Readable } from "stream";
+import type { ReadableStream as NodeWebReadableStream } from "stream/web";
+import type { VariantOptions } from "../utils/variants.js";
+
+// Where an image (or a resized copy) can be read from: a local file, a URL
+// to redirect to (`expiresIn` seconds for signed ones), or a stored object to
+// proxy through `getStream`
+export type ImageLocation =
+  | { filePath: string }
+  | { url: string; expiresIn?: number }
+  | { key: string };
+
+// Who may see the image a location is asked for. Private ones (password or
+// view limit) must get no URL that outlives the request: every fetch has to
+// come back through /raw and its checks, so they're sent as files or proxied.
+export interface LocationAccess {
+  private?: boolean;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObjectStat {
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
 export interface StorageProvider {
   uploadImage(input: {
     file: Buffer | ReadableStream<Uint8Array>;
@@ -9,4 +40,33 @@ export interface StorageProvider {
     width?: number;
     height?: number;
   }>;
+
+  // Removes the stored object; resolves quietly if it is already gone
+  delete(providerKey: string): Promise<void>;
+
+  // The stored original, as /raw should send it
+  getOriginal(providerKey: string, rawUrl: string, access?: LocationAccess): Promise<ImageLocation>;
+
+  // Bytes of a stored object (an original, or a variant a location points at),
+  // optionally just one range of them
+  getStream(providerKey: string, range?: ByteRange): Promise<Readable>;
+
+  // Size and type of a stored object; null when there is none
+  stat(providerKey: string): Promise<StoredObjectStat | null>;
+
+  exists(providerKey: string): Promise<boolean>;
+
+  // Resized and/or converted copy of the stored image, generated on first request
+  getVariant(providerKey: string, options: VariantOptions, mime: string, access?: LocationAccess): Promise<ImageLocation>;
+}
+
+// Uploads arrive as web streams; providers hand them to Node APIs with this
+export function toNodeStream(file: Buffer | ReadableStream<Uint8Array>): Readable {
+  return file instanceof Buffer
+    ? Readable.from([file])
+    : Readable.fromWeb(file as unknown as NodeWebReadableStream<Uint8Array>);
+}
+
+export function toWebStream(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
 }
@@ -0,0 +1,216 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { type Server } from "http";
+import { type AddressInfo } from "net";
+import express from "express";
+import sharp from "sharp";
+
+// The routes work on the process-wide store, which DATABASE_URL picks when
+// it's first imported; these tests want the in-memory one
+delete process.env.DATABASE_URL;
+process.env.SESSION_SECRET = "routes-test-secret";
+const { registerRoutes } = await import("./routes.js");
+const { createImageAccessToken } = await import("./utils/access-token.js");
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "routes-test-"));
+const cwd = process.cwd();
+let server: Server;
+let baseUrl: string;
+let png: Buffer;
+
+// The local provider stores under ./uploads
+before(async () => {
+  process.chdir(tempDir);
+  png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#20a060" } }).png().toBuffer();
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  process.chdir(cwd);
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const request = (pathname: string, init: RequestInit = {}) =>
+  fetch(`${baseUrl}${pathname}`, { redirect: "manual", ...init });
+
+async function upload(fields: Record<string, string> = {}, headers: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append("image", new Blob([png], { type: "image/png" }), "a.png");
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return request("/api/upload", { method: "POST", body: form, headers });
+}
+
+describe("password-protected images", () => {
+  let id: string;
+
+  before(async () => {
+    const response = await upload({ password: "correct horse" });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.passwordProtected, true);
+    id = body.id;
+  });
+
+  const unlock = (password: string) =>
+    request(`/i/${id}/unlock`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ password }).toString(),
+    });
+
+  const withCookie = (pathname: string, cookie: string) => request(pathname, { headers: { Cookie: cookie } });
+
+  it("asks for the password before showing the page or the bytes", async () => {
+    const page = await request(`/i/${id}`);
+    assert.equal(page.status, 401);
+    assert.match(await page.text(), new RegExp(`action="/i/${id}/unlock"`));
+
+    const raw = await request(`/raw/${id}`);
+    assert.equal(raw.status, 401);
+    assert.deepEqual(await raw.json(), { message: "This image is password protected" });
+  });
+
+  it("rejects a wrong password without a cookie", async () => {
+    const response = await unlock("wrong horse");
+
+    assert.equal(response.status, 401);
+    assert.match(await response.text(), /Wrong password\./);
+    assert.equal(response.headers.get("set-cookie"), null);
+  });
+
+  it("unlocks the image in this browser with the right password", async () => {
+    const response = await unlock("correct horse");
+
+    assert.equal(response.status, 303);
+    assert.equal(response.headers.get("location"), `/i/${id}`);
+    const setCookie = response.headers.get("set-cookie") ?? "";
+    assert.match(setCookie, new RegExp(`^unlock_${id}=\\d+\\.[\\w-]+;`));
+    assert.match(setCookie, /HttpOnly/);
+    const cookie = setCookie.split(";")[0];
+
+    assert.equal((await withCookie(`/i/${id}`, cookie)).status, 200);
+    const raw = await withCookie(`/raw/${id}`, cookie);
+    assert.equal(raw.status, 200);
+    assert.deepEqual(Buffer.from(await raw.arrayBuffer()), png);
+  });
+
+  it("only accepts a cookie signed for this image and for unlocking", async () => {
+    const token = createImageAccessToken(id, 60_000, "unlock");
+    const [expires, signature] = token.split(".");
+    const flipped = (signature.startsWith("A") ? "B" : "A") + signature.slice(1);
+
+    const forged = [
+      `${expires}.${flipped}`,
+      `${Number(expires) + 60_000}.${signature}`,
+      createImageAccessToken("another", 60_000, "unlock"),
+      createImageAccessToken(id, 60_000, "view"),
+      createImageAccessToken(id, -1, "unlock"),
+      "",
+    ];
+    for (const value of forged) {
+      assert.equal((await withCookie(`/raw/${id}`, `unlock_${id}=${value}`)).status, 401, value);
+    }
+
+    assert.equal((await withCookie(`/raw/${id}`, `unlock_${id}=${token}`)).status, 200);
+  });
+
+  it("stops checking passwords after too many wrong ones", async () => {
+    // One wrong try was made above
+    for (let i = 1; i < 10; i++) {
+      assert.equal((await unlock(`wrong ${i}`)).status, 401);
+    }
+
+    assert.equal((await unlock("correct horse")).status, 429);
+  });
+});
+
+describe("API keys", () => {
+  let session: string;
+
+  before(async () => {
+    const response = await request("/api/auth/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: "scripter", password: "a long enough password" }),
+    });
+    assert.equal(response.status, 201);
+    session = (response.headers.get("set-cookie") ?? "").split(";")[0];
+  });
+
+  const createKey = async (scopes: string[], uploadLimit?: number) => {
+    const response = await request("/api/keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: session },
+      body: JSON.stringify({ name: scopes.join("+"), scopes, uploadLimit }),
+    });
+    assert.equal(response.status, 201);
+    return (await response.json()) as { id: string; key: string };
+  };
+
+  const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+  it("uploads to the key's owner", async () => {
+    const { key } = await createKey(["upload", "list"]);
+
+    const uploaded = await (await upload({}, bearer(key))).json();
+    const listed = await (await request("/api/me/images", { headers: bearer(key) })).json();
+    assert.deepEqual(listed.images.map((image: { id: string }) => image.id), [uploaded.id]);
+  });
+
+  it("only allows what the key's scopes grant", async () => {
+    const listOnly = await createKey(["list"]);
+    const uploadOnly = await createKey(["upload"]);
+
+    const refused = await upload({}, bearer(listOnly.key));
+    assert.equal(refused.status, 403);
+    assert.deepEqual(await refused.json(), { message: 'This API key does not have the "upload" scope' });
+    assert.equal((await request("/api/me/images", { headers: bearer(listOnly.key) })).status, 200);
+
+    const { id, deleteToken } = await (await upload({}, bearer(uploadOnly.key))).json();
+    assert.equal((await request("/api/me/images", { headers: bearer(uploadOnly.key) })).status, 403);
+    // Not even with the image's delete token
+    for (const pathname of [`/api/images/${id}`, `/api/images/${id}?token=${deleteToken}`]) {
+      const response = await request(pathname, { method: "DELETE", headers: bearer(uploadOnly.key) });
+      assert.equal(response.status, 403);
+    }
+
+    // Keys can't manage keys, whatever their scopes
+    assert.equal((await request("/api/keys", { headers: bearer(uploadOnly.key) })).status, 401);
+  });
+
+  it("limits uploads per key, apart from other keys and the IP", async () => {
+    const limited = await createKey(["upload"], 2);
+    const other = await createKey(["upload"], 2);
+
+    assert.equal((await upload({}, bearer(limited.key))).status, 200);
+    assert.equal((await upload({}, bearer(limited.key))).status, 200);
+    const refused = await upload({}, bearer(limited.key));
+    assert.equal(refused.status, 429);
+    assert.deepEqual(await refused.json(), { message: "Rate limit exceeded. Please try again later." });
+
+    assert.equal((await upload({}, bearer(other.key))).status, 200);
+    assert.equal((await upload()).status, 200);
+  });
+
+  it("rejects unknown and revoked keys instead of treating them as anonymous", async () => {
+    const { id, key } = await createKey(["upload"]);
+    const revoked = await request(`/api/keys/${id}`, { method: "DELETE", headers: { Cookie: session } });
+    assert.equal(revoked.status, 200);
+
+    for (const token of [key, "pl_not-a-key"]) {
+      const response = await upload({}, bearer(token));
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), { message: "Invalid or revoked API key" });
+    }
+  });
+});
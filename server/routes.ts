@@ -1,21 +1,78 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import express from "express";
-import path from "path";
+import fs from "fs";
+import { pipeline } from "stream/promises";
 import { storage } from "./storage.js";
-import { CloudinaryProvider } from "./providers/cloudinary-provider.js";
-import { LocalProvider } from "./providers/local-provider.js";
-import { validateFile, ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from "./utils/validation.js";
-import { insertImageSchema, type UploadResponse } from "@shared/schema";
+import { setupAuth, getUserId, hasScope, getBearerToken } from "./auth.js";
+import { getStoragePolicy, locateImage } from "./providers/routing.js";
+import {
+  deleteImageWithToken,
+  deleteOwnedImage,
+  deleteAlbumWithToken,
+  isValidDeleteToken,
+  consumeView,
+  hasViewsLeft,
+  storeImageContent,
+  releaseImageContent,
+  LAST_VIEW_GRACE_MS,
+} from "./services/image-service.js";
+import { validateFile, sniffImageType, parseViewLimit, ALLOWED_MIME_TYPES, MAX_FILE_SIZE, SNIFF_BYTES } from "./utils/validation.js";
+import { createImageAccessToken, verifyImageAccessToken } from "./utils/access-token.js";
+import { hashPassword, verifyPassword } from "./utils/password.js";
+import { generateApiKey, serializeScopes, parseScopes } from "./utils/api-key.js";
+import {
+  generateShareXConfig,
+  generateFlameshotScript,
+  uploaderTools,
+  uploaderLinks,
+  type UploaderTool,
+  type UploaderLink,
+} from "./utils/uploader-config.js";
+import { prepareStrippedImage, getMetadataOptions } from "./utils/metadata.js";
+import { getUploadTempDir, createTempFileName, removeTempFile, readFileHead } from "./utils/temp-files.js";
+import { getExpiryPolicy, resolveExpiresAt, isExpired } from "./utils/expiry.js";
+import { fetchRemoteImage, getRemoteFetchOptions } from "./utils/remote-fetch.js";
+import {
+  createUploadSession,
+  getUploadSession,
+  appendChunk,
+  takeCompletedUpload,
+  deleteUploadSession,
+  CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  type UploadFields,
+  type UploadSession,
+} from "./services/upload-sessions.js";
+import {
+  parseWidthParam,
+  parseFormatParam,
+  variantForWidth,
+  canNegotiateFormat,
+  negotiateFormat,
+  getVariantMime,
+  VARIANT_SIZES,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type VariantOptions,
+} from "./utils/variants.js";
+import { createAlbumSchema, updateImageSchema, imagePasswordSchema, deleteOwnedImagesSchema, createApiKeySchema, ownedImageSorts, type OwnedImageSort, type ApiKey, type ApiKeyResponse, type CreatedApiKeyResponse, type Image, type UploadResponse, type AlbumResponse, type OwnedImagesResponse } from "@shared/schema";
 import multer from "multer";
 
 const upload = multer({
-  storage: multer.memoryStorage(),
+  // Spooled to a temp file as it arrives, so uploads never sit in memory whole
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      const dir = getUploadTempDir();
+      fs.promises.mkdir(dir, { recursive: true }).then(() => cb(null, dir), (error) => cb(error, dir));
+    },
+    filename: (_req, _file, cb) => cb(null, createTempFileName()),
+  }),
   limits: {
     fileSize: MAX_FILE_SIZE,
   },
+  // Only a cheap early reject; the real type is sniffed from the bytes after upload
   fileFilter: (req, file, cb) => {
-    if (ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+    if (ALLOWED_MIME_TYPES.includes(file.mimetype) || file.mimetype === "application/octet-stream") {
       cb(null, true);
     } else {
       cb(new Error("Invalid file type"));
@@ -23,35 +80,108 @@ const upload = multer({
   },
 });
 
-// Initialize storage provider based on environment
-const getStorageProvider = () => {
-  const provider = process.env.STORAGE_PROVIDER || "local";
-  
-  if (provider === "cloudinary") {
-    return new CloudinaryProvider();
+// Public base URL of this instance, as seen by the client
+const getBaseUrl = (req: Request): string => {
+  const host = req.get("host") || "localhost:5000";
+  const protocol = req.secure ? "https" : "http";
+  return `${protocol}://${host}`;
+};
+
+// Cache lifetime for a response about `image`: `maxAge`, but never past its expiry
+const getCacheMaxAge = (image: Image, maxAge: number): number => {
+  if (!image.expiresAt) return maxAge;
+  const remaining = Math.floor((image.expiresAt.getTime() - Date.now()) / 1000);
+  return Math.max(0, Math.min(maxAge, remaining));
+};
+
+// API view of an image record, with absolute links
+const toUploadResponse = (image: Image, baseUrl: string): UploadResponse => ({
+  id: image.id,
+  rawUrl: `${baseUrl}/raw/${image.id}`,
+  shortUrl: `${baseUrl}/i/${image.id}`,
+  width: image.width || undefined,
+  height: image.height || undefined,
+  size: image.size,
+  mime: image.mime,
+  deleteToken: image.deleteToken,
+  deleteUrl: `${baseUrl}/d/${image.id}/${image.deleteToken}`,
+  albumId: image.albumId || undefined,
+  expiresAt: image.expiresAt?.toISOString() ?? null,
+  maxViews: image.maxViews,
+  passwordProtected: image.passwordHash !== null,
+});
+
+const toApiKeyResponse = (apiKey: ApiKey): ApiKeyResponse => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: parseScopes(apiKey.scopes),
+  uploadLimit: apiKey.uploadLimit,
+  lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+  createdAt: apiKey.createdAt?.toISOString() ?? null,
+});
+
+// How long entering an image's password keeps it unlocked in that browser
+const UNLOCK_TTL_MS = 60 * 60 * 1000;
+
+// Reads one cookie without pulling in cookie-parser
+const getCookie = (req: Request, name: string): string | undefined => {
+  for (const part of (req.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
   }
-  
-  return new LocalProvider();
+  return undefined;
+};
+
+const isOwner = (req: Request, image: Image): boolean =>
+  image.ownerId !== null && getUserId(req) === image.ownerId;
+
+// Public images are always unlocked, and so are the owner's; others need the cookie set by /i/:id/unlock
+const isUnlocked = (req: Request, image: Image): boolean => {
+  if (!image.passwordHash || isOwner(req, image)) return true;
+  const token = getCookie(req, `unlock_${image.id}`);
+  return token !== undefined && verifyImageAccessToken(image.id, token, "unlock");
+};
+
+// ?token= from a page that already passed the password and view-limit checks
+const hasViewToken = (req: Request, image: Image): boolean => {
+  const token = req.query.token;
+  return typeof token === "string" && verifyImageAccessToken(image.id, token);
+};
+
+// Anyone may fetch, cache and preview it: no password and no view limit
+const isPublicImage = (image: Image): boolean => image.maxViews === null && !image.passwordHash;
+
+// Delete token from the X-Delete-Token header, JSON body or ?token=
+const getDeleteToken = (req: Request): string | undefined => {
+  const token = req.get("x-delete-token") || req.body?.deleteToken || req.query.token;
+  return typeof token === "string" && token ? token : undefined;
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const storageProvider = getStorageProvider();
+  setupAuth(app);
+
+  const storagePolicy = getStoragePolicy();
+  const metadataOptions = getMetadataOptions();
+  const expiryPolicy = getExpiryPolicy();
+  const remoteFetchOptions = getRemoteFetchOptions(MAX_FILE_SIZE);
 
-  // Rate limiting (basic in-memory implementation)
+  // Rate limiting (basic in-memory implementation). Anonymous and session
+  // uploads are counted per IP; API keys per key, against the key's own limit.
   const uploadCounts = new Map<string, { count: number; resetTime: number }>();
   const RATE_LIMIT = 10; // uploads per hour
   const RATE_WINDOW = 60 * 60 * 1000; // 1 hour
 
-  const checkRateLimit = (ip: string): boolean => {
+  const checkRateLimit = (bucket: string, limit = RATE_LIMIT): boolean => {
     const now = Date.now();
-    const userLimit = uploadCounts.get(ip);
+    const userLimit = uploadCounts.get(bucket);
     
     if (!userLimit || now > userLimit.resetTime) {
-      uploadCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW });
+      uploadCounts.set(bucket, { count: 1, resetTime: now + RATE_WINDOW });
       return true;
     }
     
-    if (userLimit.count >= RATE_LIMIT) {
+    if (userLimit.count >= limit) {
       return false;
     }
     
@@ -59,77 +189,398 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return true;
   };
 
+  // Wrong image passwords allowed per IP per window, to slow down guessing
+  const unlockFailures = new Map<string, { count: number; resetTime: number }>();
+  const UNLOCK_LIMIT = 10;
+  const UNLOCK_WINDOW = 15 * 60 * 1000; // 15 minutes
+
+  const isUnlockBlocked = (ip: string): boolean => {
+    const failures = unlockFailures.get(ip);
+    return !!failures && Date.now() <= failures.resetTime && failures.count >= UNLOCK_LIMIT;
+  };
+
+  const recordUnlockFailure = (ip: string) => {
+    const now = Date.now();
+    const failures = unlockFailures.get(ip);
+
+    if (!failures || now > failures.resetTime) {
+      unlockFailures.set(ip, { count: 1, resetTime: now + UNLOCK_WINDOW });
+    } else {
+      failures.count++;
+    }
+  };
+
+  // Scope and rate limit checks shared by every upload route; false once a response is sent
+  const admitUpload = (req: Request, res: Response): boolean => {
+    const clientIp = req.ip || req.connection.remoteAddress || "unknown";
+
+    if (!hasScope(req, "upload")) {
+      res.status(403).json({
+        message: 'This API key does not have the "upload" scope',
+      });
+      return false;
+    }
+    
+    // Rate limiting check
+    const allowed = req.apiKey
+      ? checkRateLimit(`key:${req.apiKey.id}`, req.apiKey.uploadLimit)
+      : checkRateLimit(clientIp);
+    if (!allowed) {
+      res.status(429).json({
+        message: "Rate limit exceeded. Please try again later.",
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  // Validates, cleans and stores one spooled image along with its options
+  // (album, expiry, view limit, password), then sends the response. Options
+  // come from req.body unless given, as for resumable uploads. The caller
+  // removes the spooled file.
+  const storeUpload = async (
+    req: Request,
+    res: Response,
+    source: { filePath: string; filename: string; declaredType: string },
+    fields: UploadFields = req.body,
+  ) => {
+    // Adding to an album requires the album's delete token
+    let albumId: string | null = null;
+    if (fields.albumId) {
+      const album = await storage.getAlbumById(String(fields.albumId));
+      if (!album || typeof fields.albumToken !== "string" || !isValidDeleteToken(album, fields.albumToken)) {
+        return res.status(403).json({
+          message: "Invalid album or album token",
+        });
+      }
+      albumId = album.id;
+    }
+
+    // `expiresIn` is 1h, 1d, 1w or never, capped by the server's MAX_EXPIRY
+    const expiresAt = resolveExpiresAt(fields.expiresIn, expiryPolicy);
+    // `maxViews` deletes the image after that many views; 1 is burn-after-reading
+    const maxViews = parseViewLimit(fields.maxViews);
+    // Optional `password` that viewers must enter at /i/:id
+    let passwordHash: string | null = null;
+    if (fields.password) {
+      const password = imagePasswordSchema.safeParse(fields.password);
+      if (!password.success) {
+        throw new Error(password.error.errors[0].message);
+      }
+      passwordHash = await hashPassword(password.data);
+    }
+
+    // Validate file on server side, using the type sniffed from its first bytes
+    const { size } = await fs.promises.stat(source.filePath);
+    const mime = await sniffImageType(await readFileHead(source.filePath, SNIFF_BYTES), source.declaredType);
+    validateFile({
+      size,
+      type: mime,
+    });
+
+    // Strip EXIF/GPS/XMP/IPTC and comments before the bytes reach any provider.
+    // This walks the file once up front, so a corrupt one fails here.
+    const stripped = await prepareStrippedImage(source.filePath, mime, metadataOptions);
+
+    // Stream to the provider the storage policy picks (and its replica, if any),
+    // unless identical content is stored already
+    const { width, height, ...stored } = await storeImageContent(storagePolicy, stripped, {
+      filename: source.filename,
+      mime,
+    });
+
+    // Store metadata in database, or give the content's reference back
+    let image: Image;
+    try {
+      image = await storage.createImage({
+        ...stored,
+        sha256: stripped.sha256,
+        width: width || null,
+        height: height || null,
+        mime,
+        size: stripped.size,
+        albumId,
+        expiresAt,
+        maxViews,
+        passwordHash,
+        ownerId: getUserId(req),
+      });
+    } catch (error) {
+      await releaseImageContent(stripped.sha256);
+      throw error;
+    }
+
+    const response = toUploadResponse(image, getBaseUrl(req));
+    res.json(response);
+  };
+
   // Upload endpoint
   app.post("/api/upload", upload.single("image"), async (req, res) => {
     try {
-      const clientIp = req.ip || req.connection.remoteAddress || "unknown";
+      if (!admitUpload(req, res)) return;
+
+      if (!req.file) {
+        return res.status(400).json({
+          message: "No file uploaded",
+        });
+      }
+
+      await storeUpload(req, res, {
+        filePath: req.file.path,
+        filename: req.file.originalname,
+        declaredType: req.file.mimetype,
+      });
+    } catch (error) {
+      console.error("Upload error:", error);
       
-      // Rate limiting check
-      if (!checkRateLimit(clientIp)) {
-        return res.status(429).json({
-          message: "Rate limit exceeded. Please try again later.",
+      if (error instanceof Error) {
+        return res.status(400).json({
+          message: error.message,
         });
       }
+      
+      res.status(500).json({
+        message: "Internal server error during upload",
+      });
+    } finally {
+      await removeTempFile(req.file?.path);
+    }
+  });
 
-      if (!req.file) {
+  // Upload by URL: the server fetches `url` (JSON body, same options as
+  // /api/upload) and stores it like any other upload
+  app.post("/api/upload/url", async (req, res) => {
+    let filePath: string | undefined;
+    try {
+      if (!admitUpload(req, res)) return;
+
+      if (typeof req.body?.url !== "string" || !req.body.url.trim()) {
         return res.status(400).json({
-          message: "No file uploaded",
+          message: "URL is required",
         });
       }
 
-      // Validate file on server side
-      validateFile({
-        size: req.file.size,
-        type: req.file.mimetype,
+      const remote = await fetchRemoteImage(req.body.url.trim(), remoteFetchOptions);
+      filePath = remote.filePath;
+      await storeUpload(req, res, {
+        filePath,
+        filename: remote.filename,
+        // Whatever the remote claims; the bytes decide
+        declaredType: "",
       });
+    } catch (error) {
+      console.error("URL upload error:", error);
 
-      // Upload to storage provider
-      const uploadResult = await storageProvider.uploadImage({
-        file: req.file.buffer,
-        filename: req.file.originalname,
-        mime: req.file.mimetype,
+      if (error instanceof Error) {
+        return res.status(400).json({
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        message: "Internal server error during upload",
       });
+    } finally {
+      await removeTempFile(filePath);
+    }
+  });
 
-      // Store metadata in database
-      const image = await storage.createImage({
-        provider: process.env.STORAGE_PROVIDER === "cloudinary" ? "cloudinary" : "local",
-        providerKey: uploadResult.providerKey,
-        rawUrl: uploadResult.rawUrl,
-        width: uploadResult.width || null,
-        height: uploadResult.height || null,
-        mime: req.file.mimetype,
-        size: req.file.size,
+  // Resumable uploads: POST /api/uploads opens a session with the file's size
+  // and the usual upload options, PATCH /api/uploads/:id appends a chunk at
+  // `Upload-Offset`, and POST /api/uploads/:id/complete stores the image.
+  // GET (or HEAD) reports how much arrived, so clients resume after a drop.
+  const findUploadSession = (req: Request, res: Response): UploadSession | undefined => {
+    const session = getUploadSession(req.params.id);
+    if (!session || session.ownerId !== getUserId(req)) {
+      res.status(404).json({
+        message: "Upload not found or expired",
       });
+      return undefined;
+    }
+    return session;
+  };
+
+  app.post("/api/uploads", async (req, res) => {
+    try {
+      // Counts against the rate limit once, however many chunks follow
+      if (!admitUpload(req, res)) return;
 
-      // Get the host for URLs
-      const host = req.get("host") || "localhost:5000";
-      const protocol = req.secure ? "https" : "http";
-      const shortUrl = `${protocol}://${host}/i/${image.id}`;
-      const rawUrl = `${protocol}://${host}/raw/${image.id}`;
+      const { filename, size, type, ...fields } = req.body ?? {};
+      if (typeof filename !== "string" || !filename.trim()) {
+        return res.status(400).json({
+          message: "Filename is required",
+        });
+      }
+      if (!Number.isInteger(size) || size <= 0) {
+        return res.status(400).json({
+          message: "Size must be a positive number of bytes",
+        });
+      }
+      if (size > MAX_FILE_SIZE) {
+        return res.status(400).json({
+          message: "File size must be less than 10MB",
+        });
+      }
 
-      const response: UploadResponse = {
-        id: image.id,
-        rawUrl: rawUrl,
-        shortUrl,
-        width: image.width || undefined,
-        height: image.height || undefined,
-        size: image.size,
-        mime: image.mime,
-      };
+      // Fail fast on bad options instead of after the last chunk
+      resolveExpiresAt(fields.expiresIn, expiryPolicy);
+      parseViewLimit(fields.maxViews);
 
-      res.json(response);
+      const session = await createUploadSession({
+        filename: filename.trim().slice(0, 255),
+        declaredType: typeof type === "string" ? type : "",
+        size,
+        ownerId: getUserId(req),
+        fields,
+      });
+
+      res.status(201).json({
+        id: session.id,
+        offset: session.offset,
+        size: session.size,
+        chunkSize: CHUNK_SIZE,
+      });
     } catch (error) {
-      console.error("Upload error:", error);
-      
+      console.error("Upload init error:", error);
+
       if (error instanceof Error) {
         return res.status(400).json({
           message: error.message,
         });
       }
-      
+
+      res.status(500).json({
+        message: "Internal server error during upload",
+      });
+    }
+  });
+
+  app.get("/api/uploads/:id", (req, res) => {
+    const session = findUploadSession(req, res);
+    if (!session) return;
+
+    res.set("Upload-Offset", String(session.offset));
+    res.set("Cache-Control", "no-store");
+    res.json({
+      id: session.id,
+      offset: session.offset,
+      size: session.size,
+      chunkSize: CHUNK_SIZE,
+    });
+  });
+
+  app.patch("/api/uploads/:id", async (req, res) => {
+    try {
+      const session = findUploadSession(req, res);
+      if (!session) return;
+
+      if (!req.is("application/offset+octet-stream")) {
+        return res.status(415).json({
+          message: "Chunks must be sent as application/offset+octet-stream",
+        });
+      }
+
+      const offset = Number(req.get("upload-offset"));
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({
+          message: "Upload-Offset header is required",
+        });
+      }
+
+      // Chunked bodies without a length are still capped while streaming;
+      // a wrong offset gets its 409 from appendChunk instead
+      const remaining = Math.min(MAX_CHUNK_SIZE, session.size - session.offset);
+      if (offset === session.offset && Number(req.get("content-length")) > remaining) {
+        return res.status(413).json({
+          message: `Chunk is larger than the ${remaining} bytes left in this upload`,
+        });
+      }
+
+      const result = await appendChunk(session.id, offset, req);
+      switch (result.status) {
+        case "not-found":
+          return res.status(404).json({ message: "Upload not found or expired" });
+        case "busy":
+          return res.status(409).json({ message: "Another chunk for this upload is still being written" });
+        case "offset-mismatch":
+          // Drain the unused chunk so the connection can be reused
+          req.resume();
+          res.set("Upload-Offset", String(result.offset));
+          return res.status(409).json({ message: "Upload-Offset does not match the upload", offset: result.offset });
+      }
+
+      res.set("Upload-Offset", String(result.offset));
+      res.json({ offset: result.offset });
+    } catch (error) {
+      // Usually the client went away mid-chunk; the bytes that made it are kept
+      console.error("Upload chunk error:", error);
+      if (res.headersSent || req.destroyed) return;
+
+      const session = getUploadSession(req.params.id);
+      if (session) res.set("Upload-Offset", String(session.offset));
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Could not write chunk",
+      });
+    }
+  });
+
+  app.post("/api/uploads/:id/complete", async (req, res) => {
+    let filePath: string | undefined;
+    try {
+      const session = findUploadSession(req, res);
+      if (!session) return;
+
+      // The key may have lost the scope since the upload started
+      if (!hasScope(req, "upload")) {
+        return res.status(403).json({
+          message: 'This API key does not have the "upload" scope',
+        });
+      }
+
+      const completed = takeCompletedUpload(session.id);
+      if (!completed) {
+        return res.status(409).json({
+          message: `Upload is incomplete (${session.offset} of ${session.size} bytes received)`,
+          offset: session.offset,
+        });
+      }
+
+      filePath = completed.filePath;
+      await storeUpload(req, res, {
+        filePath,
+        filename: completed.session.filename,
+        declaredType: completed.session.declaredType,
+      }, completed.session.fields);
+    } catch (error) {
+      console.error("Upload complete error:", error);
+
+      if (error instanceof Error) {
+        return res.status(400).json({
+          message: error.message,
+        });
+      }
+
       res.status(500).json({
         message: "Internal server error during upload",
       });
+    } finally {
+      await removeTempFile(filePath);
+    }
+  });
+
+  app.delete("/api/uploads/:id", async (req, res) => {
+    try {
+      const session = findUploadSession(req, res);
+      if (!session) return;
+
+      await deleteUploadSession(session.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Upload cancel error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
     }
   });
 
@@ -143,14 +594,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).send(generateNotFoundPage());
       }
 
-      const host = req.get("host") || "localhost:5000";
-      const protocol = req.secure ? "https" : "http";
-      const rawUrl = `${protocol}://${host}/raw/${id}`;
-      const shortUrl = `${protocol}://${host}/i/${id}`;
+      if (isExpired(image)) {
+        return res.status(410).send(generateExpiredPage());
+      }
+
+      if (!isUnlocked(req, image)) {
+        res.set({
+          "Cache-Control": "no-store",
+          "Content-Type": "text/html",
+        });
+        return res.status(401).send(generateUnlockPage({ actionUrl: `/i/${image.id}/unlock` }));
+      }
+
+      // View-limited images get an interstitial; viewing is a POST so crawlers don't use up views
+      if (image.maxViews !== null) {
+        res.set({
+          "Cache-Control": "no-store",
+          "Content-Type": "text/html",
+        });
+
+        if (!hasViewsLeft(image)) {
+          return res.status(410).send(generateExpiredPage());
+        }
+
+        return res.send(generateViewLimitPage({
+          viewsLeft: image.maxViews - image.views,
+          actionUrl: `/i/${image.id}`,
+        }));
+      }
 
-      // Set cache headers for HTML page
+      const baseUrl = getBaseUrl(req);
+      const rawUrl = `${baseUrl}/raw/${id}`;
+      const shortUrl = `${baseUrl}/i/${id}`;
+
+      // Set cache headers for HTML page; an unlocked page must stay in this browser
+      const maxAge = getCacheMaxAge(image, 600);
       res.set({
-        "Cache-Control": "public, max-age=600, s-maxage=600",
+        "Cache-Control": image.passwordHash ? "private, no-store" : `public, max-age=${maxAge}, s-maxage=${maxAge}`,
         "Content-Type": "text/html",
       });
 
@@ -158,96 +638,1037 @@ export async function registerRoutes(app: Express): Promise<Server> {
         id: image.id,
         rawUrl,
         shortUrl,
+        previewUrl: `${rawUrl}?w=${VARIANT_SIZES.medium}`,
         width: image.width,
         height: image.height,
         size: image.size,
         mime: image.mime,
         createdAt: image.createdAt,
+        passwordProtected: image.passwordHash !== null,
+      });
+
+      res.send(html);
+    } catch (error) {
+      console.error("Image view error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  // Reveals a view-limited image, using up one view. The page loads the image
+  // with a short-lived token so that doesn't count as a second view.
+  app.post("/i/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const image = await storage.getImageById(id);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (!image) {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      // Nothing to reveal here; GET shows the page or the unlock form
+      if (image.maxViews === null || !isUnlocked(req, image)) {
+        return res.redirect(303, `/i/${image.id}`);
+      }
+
+      const viewed = isExpired(image) ? undefined : await consumeView(image.id);
+      if (!viewed || viewed.maxViews === null) {
+        return res.status(410).send(generateExpiredPage());
+      }
+
+      const baseUrl = getBaseUrl(req);
+      const token = createImageAccessToken(viewed.id, LAST_VIEW_GRACE_MS);
+
+      res.send(generateImageViewPage({
+        id: viewed.id,
+        rawUrl: `${baseUrl}/raw/${viewed.id}`,
+        shortUrl: `${baseUrl}/i/${viewed.id}`,
+        previewUrl: `${baseUrl}/raw/${viewed.id}?token=${token}`,
+        width: viewed.width,
+        height: viewed.height,
+        size: viewed.size,
+        mime: viewed.mime,
+        createdAt: viewed.createdAt,
+        viewsLeft: viewed.maxViews - viewed.views,
+        passwordProtected: viewed.passwordHash !== null,
+      }));
+    } catch (error) {
+      console.error("Image view error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  // Checks an image's password and remembers the unlock in a short-lived signed cookie
+  app.post("/i/:id/unlock", async (req, res) => {
+    try {
+      const clientIp = req.ip || req.connection.remoteAddress || "unknown";
+      const image = await storage.getImageById(req.params.id);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (!image) {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      if (!image.passwordHash) {
+        return res.redirect(303, `/i/${image.id}`);
+      }
+
+      const actionUrl = `/i/${image.id}/unlock`;
+
+      if (isUnlockBlocked(clientIp)) {
+        return res.status(429).send(generateUnlockPage({
+          actionUrl,
+          error: "Too many wrong passwords. Please try again later.",
+        }));
+      }
+
+      const password = typeof req.body.password === "string" ? req.body.password : "";
+      if (!(await verifyPassword(password, image.passwordHash))) {
+        recordUnlockFailure(clientIp);
+        return res.status(401).send(generateUnlockPage({ actionUrl, error: "Wrong password." }));
+      }
+
+      res.cookie(`unlock_${image.id}`, createImageAccessToken(image.id, UNLOCK_TTL_MS, "unlock"), {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.secure,
+        maxAge: UNLOCK_TTL_MS,
+      });
+      res.redirect(303, `/i/${image.id}`);
+    } catch (error) {
+      console.error("Unlock error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  // Sends the original, or the cached variant when one is asked for. Without an
+  // explicit format, JPEG/PNG go out as AVIF or WebP when the Accept header allows.
+  const serveImage = async (req: Request, res: Response, image: Image, options: VariantOptions) => {
+    if (isExpired(image)) {
+      return res.status(410).json({
+        message: "Image has expired",
+      });
+    }
+
+    // A view token comes from a page that already checked the password and used a view
+    const viewToken = hasViewToken(req, image);
+
+    if (!viewToken && !isUnlocked(req, image)) {
+      return res.status(401).json({
+        message: "This image is password protected",
+      });
+    }
+
+    // View-limited images count every fetch, except ones carrying a view token or the owner's
+    if (image.maxViews !== null && !viewToken && !isOwner(req, image) && !(await consumeView(image.id))) {
+      return res.status(410).json({
+        message: "Image has no views left",
       });
+    }
+
+    let format = options.format;
+    if (!format && canNegotiateFormat(image.mime)) {
+      res.vary("Accept");
+      format = negotiateFormat(req.get("accept"), image.mime) ?? undefined;
+    }
+
+    // Converting to the format it's already stored in is a no-op
+    if (format && OUTPUT_FORMATS[format] === image.mime) {
+      format = undefined;
+    }
+    const variant: VariantOptions = { size: options.size, format };
+
+    // From the image's provider, or its replica when that can't serve it.
+    // Protected images are never redirected: a URL would outlive the checks above.
+    const located = await locateImage(image, variant, { private: !isPublicImage(image) });
+    if (!located) {
+      return res.status(404).json({
+        message: "Image not found",
+      });
+    }
+    const { provider, location, stat } = located;
+
+    // Set cache headers for immutable raw image (only until it expires, if it does;
+    // never for private ones, or caches would serve views we can't count or
+    // hand protected bytes to others); nosniff keeps browsers on the stored type.
+    // A redirect to a signed URL is only cached for part of the URL's lifetime.
+    const maxAge = "expiresIn" in location && location.expiresIn
+      ? Math.floor(location.expiresIn / 2)
+      : 31536000;
+    res.set({
+      "Cache-Control": !isPublicImage(image)
+        ? "private, no-store"
+        : image.expiresAt || maxAge < 31536000
+          ? `public, max-age=${getCacheMaxAge(image, maxAge)}`
+          : "public, immutable, max-age=31536000",
+      "Content-Type": getVariantMime(image.mime, variant),
+      "X-Content-Type-Options": "nosniff",
+    });
+
+    if ("filePath" in location) return res.sendFile(location.filePath);
+    if ("url" in location) return res.redirect(location.url);
+
+    // Proxied from the provider, honouring a single byte range
+    if (!stat) throw new Error(`No size for stored image ${image.id}`);
+    res.set("Accept-Ranges", "bytes");
+    if (stat.lastModified) res.set("Last-Modified", stat.lastModified.toUTCString());
+
+    const ranges = req.headers.range ? req.range(stat.size) : undefined;
+    if (ranges === -1) {
+      res.set("Content-Range", `bytes */${stat.size}`);
+      return res.status(416).end();
+    }
+    // Malformed or multiple ranges get the whole image
+    const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+    if (range) {
+      res.status(206).set("Content-Range", `bytes ${range.start}-${range.end}/${stat.size}`);
+    }
+    res.set("Content-Length", String(range ? range.end - range.start + 1 : stat.size));
+    if (req.method === "HEAD") return res.end();
+
+    const stream = await provider.getStream(location.key, range);
+    try {
+      await pipeline(stream, res);
+    } catch (error) {
+      console.error("Error streaming image:", error);
+      res.destroy();
+    }
+  };
+
+  // Raw image endpoint; ?w= picks the smallest resized variant at least that wide,
+  // ?format= converts regardless of Accept
+  app.get("/raw/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      let width: number | null;
+      let format: OutputFormat | null;
+      try {
+        width = parseWidthParam(req.query.w);
+        format = parseFormatParam(req.query.format);
+      } catch (error) {
+        return res.status(400).json({
+          message: error instanceof Error ? error.message : "Invalid image options",
+        });
+      }
+
+      const image = await storage.getImageById(id);
+      
+      if (!image) {
+        return res.status(404).json({
+          message: "Image not found",
+        });
+      }
+
+      await serveImage(req, res, image, {
+        size: width === null ? undefined : variantForWidth(width),
+        format: format ?? undefined,
+      });
+    } catch (error) {
+      console.error("Raw image error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // Thumbnail endpoint for galleries and previews
+  app.get("/t/:id", async (req, res) => {
+    try {
+      const image = await storage.getImageById(req.params.id);
+
+      if (!image) {
+        return res.status(404).json({
+          message: "Image not found",
+        });
+      }
+
+      await serveImage(req, res, image, { size: "thumb" });
+    } catch (error) {
+      console.error("Thumbnail error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // Delete endpoint; the delete token works for anyone, signed-in owners don't need it
+  app.delete("/api/images/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const token = getDeleteToken(req);
+      const userId = getUserId(req);
+
+      if (!token && !userId) {
+        return res.status(400).json({
+          message: "Delete token is required",
+        });
+      }
+
+      // Holds for API keys even with a token, which a key could have read from a listing
+      if (!hasScope(req, "delete")) {
+        return res.status(403).json({
+          message: 'This API key does not have the "delete" scope',
+        });
+      }
+
+      const result = token ? await deleteImageWithToken(id, token) : await deleteOwnedImage(id, userId!);
+
+      if (result === "not-found") {
+        return res.status(404).json({
+          message: "Image not found",
+        });
+      }
+
+      if (result === "invalid-token") {
+        return res.status(403).json({
+          message: "Invalid delete token",
+        });
+      }
+
+      if (result === "forbidden") {
+        return res.status(403).json({
+          message: "You can only delete your own uploads",
+        });
+      }
+
+      res.json({
+        message: "Image deleted",
+      });
+    } catch (error) {
+      console.error("Delete error:", error);
+      res.status(500).json({
+        message: "Internal server error during delete",
+      });
+    }
+  });
+
+  // Changes an image's expiry, view limit or password; needs the delete token or ownership
+  app.patch("/api/images/:id", async (req, res) => {
+    try {
+      const token = getDeleteToken(req);
+      const userId = getUserId(req);
+
+      if (!token && !userId) {
+        return res.status(400).json({
+          message: "Delete token is required",
+        });
+      }
+
+      if (!hasScope(req, "upload")) {
+        return res.status(403).json({
+          message: 'This API key does not have the "upload" scope',
+        });
+      }
+
+      const parsed = updateImageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0].message,
+        });
+      }
+
+      const image = await storage.getImageById(req.params.id);
+
+      if (!image || isExpired(image) || !hasViewsLeft(image)) {
+        return res.status(404).json({
+          message: "Image not found",
+        });
+      }
+
+      const allowed = token ? isValidDeleteToken(image, token) : image.ownerId === userId;
+      if (!allowed) {
+        return res.status(403).json({
+          message: token ? "Invalid delete token" : "You can only change your own uploads",
+        });
+      }
+
+      const { expiresIn, maxViews, password } = parsed.data;
+      if (maxViews && maxViews <= image.views) {
+        return res.status(400).json({
+          message: `This image has already been viewed ${image.views} times`,
+        });
+      }
+
+      const updated = await storage.updateImage(image.id, {
+        ...(expiresIn && { expiresAt: resolveExpiresAt(expiresIn, expiryPolicy) }),
+        ...(maxViews !== undefined && { maxViews }),
+        ...(password !== undefined && { passwordHash: password === null ? null : await hashPassword(password) }),
+      });
+
+      res.json({
+        expiresAt: updated?.expiresAt?.toISOString() ?? null,
+        maxViews: updated?.maxViews ?? null,
+        passwordProtected: !!updated?.passwordHash,
+      });
+    } catch (error) {
+      console.error("Update error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // The signed-in user's uploads, newest first unless ?sort= says otherwise
+  app.get("/api/me/images", async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({
+          message: "Not logged in",
+        });
+      }
+
+      if (!hasScope(req, "list")) {
+        return res.status(403).json({
+          message: 'This API key does not have the "list" scope',
+        });
+      }
+
+      const sort = (req.query.sort ?? "newest") as OwnedImageSort;
+      if (!ownedImageSorts.includes(sort)) {
+        return res.status(400).json({
+          message: `Sort must be one of: ${ownedImageSorts.join(", ")}`,
+        });
+      }
+
+      const page = Math.max(1, Number.parseInt(String(req.query.page ?? "1"), 10) || 1);
+      const pageSize = Math.min(100, Math.max(1, Number.parseInt(String(req.query.pageSize ?? "24"), 10) || 24));
+      const { images: owned, total } = await storage.getImagesByOwnerId(userId, {
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      }, sort);
+
+      const baseUrl = getBaseUrl(req);
+      // A delete token lets anyone delete or change the image, so only keys
+      // that may do that themselves get to see it
+      const canDelete = hasScope(req, "delete");
+      const response: OwnedImagesResponse = {
+        images: owned.map((image) => {
+          const { deleteToken, deleteUrl, ...rest } = toUploadResponse(image, baseUrl);
+          return {
+            ...rest,
+            ...(canDelete && { deleteToken, deleteUrl }),
+            createdAt: image.createdAt?.toISOString() ?? null,
+          };
+        }),
+        total,
+        page,
+        pageSize,
+        sort,
+      };
+
+      res.set("Cache-Control", "private, no-store");
+      res.json(response);
+    } catch (error) {
+      console.error("List uploads error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // Deletes a selection of the signed-in user's uploads. Ids that are gone or
+  // belong to someone else are reported back rather than failing the batch.
+  app.post("/api/me/images/delete", async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      if (!userId) {
+        return res.status(401).json({
+          message: "Not logged in",
+        });
+      }
+
+      if (!hasScope(req, "delete")) {
+        return res.status(403).json({
+          message: 'This API key does not have the "delete" scope',
+        });
+      }
+
+      const parsed = deleteOwnedImagesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0].message,
+        });
+      }
+
+      const deleted: string[] = [];
+      const failed: string[] = [];
+      for (const id of Array.from(new Set(parsed.data.ids))) {
+        const result = await deleteOwnedImage(id, userId);
+        (result === "deleted" ? deleted : failed).push(id);
+      }
+
+      res.json({ deleted, failed });
+    } catch (error) {
+      console.error("Bulk delete error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // API keys are managed from a logged-in browser session only, so a leaked
+  // key can't mint more keys or revoke the owner's others
+  app.get("/api/keys", async (req, res) => {
+    try {
+      if (!req.user || req.apiKey) {
+        return res.status(401).json({
+          message: "Not logged in",
+        });
+      }
+
+      const keys = await storage.getApiKeysByUserId(req.user.id);
+      res.set("Cache-Control", "private, no-store");
+      res.json(keys.map(toApiKeyResponse));
+    } catch (error) {
+      console.error("List API keys error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // The only response that ever contains the key itself
+  app.post("/api/keys", async (req, res) => {
+    try {
+      if (!req.user || req.apiKey) {
+        return res.status(401).json({
+          message: "Not logged in",
+        });
+      }
+
+      const parsed = createApiKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0].message,
+        });
+      }
+
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId: req.user.id,
+        name: parsed.data.name,
+        prefix,
+        keyHash,
+        scopes: serializeScopes(parsed.data.scopes),
+        uploadLimit: parsed.data.uploadLimit,
+      });
+
+      const response: CreatedApiKeyResponse = { ...toApiKeyResponse(apiKey), key };
+      res.set("Cache-Control", "private, no-store");
+      res.status(201).json(response);
+    } catch (error) {
+      console.error("Create API key error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  app.delete("/api/keys/:id", async (req, res) => {
+    try {
+      if (!req.user || req.apiKey) {
+        return res.status(401).json({
+          message: "Not logged in",
+        });
+      }
+
+      if (!(await storage.deleteApiKey(req.params.id, req.user.id))) {
+        return res.status(404).json({
+          message: "API key not found",
+        });
+      }
+
+      res.json({
+        message: "API key revoked",
+      });
+    } catch (error) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  // ShareX (.sxcu) or Flameshot (shell script) uploader config for this
+  // instance. Requested with an API key, the config carries that key; without
+  // one it uploads anonymously. ?link=raw|short picks the link that's copied.
+  app.get("/api/uploader-config/:tool", (req, res) => {
+    const tool = req.params.tool as UploaderTool;
+    if (!uploaderTools.includes(tool)) {
+      return res.status(404).json({
+        message: `Unknown tool; use one of: ${uploaderTools.join(", ")}`,
+      });
+    }
+
+    const link = (req.query.link ?? "raw") as UploaderLink;
+    if (!uploaderLinks.includes(link)) {
+      return res.status(400).json({
+        message: `Link must be one of: ${uploaderLinks.join(", ")}`,
+      });
+    }
+
+    if (!hasScope(req, "upload")) {
+      return res.status(403).json({
+        message: 'This API key does not have the "upload" scope',
+      });
+    }
+
+    const baseUrl = getBaseUrl(req);
+    const options = { baseUrl, apiKey: req.apiKey ? getBearerToken(req) : undefined, link };
+    const host = new URL(baseUrl).hostname;
+
+    res.set("Cache-Control", "private, no-store");
+    if (tool === "sharex") {
+      res.attachment(`piclink-${host}.sxcu`);
+      res.type("application/json").send(JSON.stringify(generateShareXConfig(options), null, 2));
+    } else {
+      res.attachment(`piclink-${host}-flameshot.sh`);
+      res.type("text/x-shellscript").send(generateFlameshotScript(options));
+    }
+  });
+
+  // Delete confirmation page; GET never deletes so link previews can't trigger it
+  app.get("/d/:id/:token", async (req, res) => {
+    try {
+      const { id, token } = req.params;
+      const image = await storage.getImageById(id);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (!image) {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      if (!isValidDeleteToken(image, token)) {
+        return res.status(403).send(generateErrorPage("This delete link is not valid."));
+      }
+
+      res.send(generateDeleteConfirmPage({
+        kind: "image",
+        // The delete link is enough to see the image; don't use up a view or ask for the password
+        previewUrl: isPublicImage(image)
+          ? `${getBaseUrl(req)}/t/${image.id}`
+          : `${getBaseUrl(req)}/t/${image.id}?token=${createImageAccessToken(image.id, LAST_VIEW_GRACE_MS)}`,
+        actionUrl: `/d/${image.id}/${image.deleteToken}`,
+      }));
+    } catch (error) {
+      console.error("Delete page error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  app.post("/d/:id/:token", async (req, res) => {
+    try {
+      const { id, token } = req.params;
+      const result = await deleteImageWithToken(id, token);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (result === "not-found") {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      if (result === "invalid-token") {
+        return res.status(403).send(generateErrorPage("This delete link is not valid."));
+      }
+
+      res.send(generateDeletedPage("image"));
+    } catch (error) {
+      console.error("Delete error:", error);
+      res.status(500).send(generateErrorPage("Internal server error during delete"));
+    }
+  });
+
+  // Create an album; its delete token also authorizes adding images to it
+  app.post("/api/albums", async (req, res) => {
+    try {
+      const { title } = createAlbumSchema.parse(req.body ?? {});
+      const album = await storage.createAlbum({ title: title || null });
+      const baseUrl = getBaseUrl(req);
+
+      const response: AlbumResponse = {
+        id: album.id,
+        url: `${baseUrl}/a/${album.id}`,
+        title: album.title || undefined,
+        deleteToken: album.deleteToken,
+        deleteUrl: `${baseUrl}/a/${album.id}/delete/${album.deleteToken}`,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Album create error:", error);
+
+      if (error instanceof Error) {
+        return res.status(400).json({
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        message: "Internal server error",
+      });
+    }
+  });
+
+  app.delete("/api/albums/:id", async (req, res) => {
+    try {
+      const token = getDeleteToken(req);
+
+      if (!token) {
+        return res.status(400).json({
+          message: "Delete token is required",
+        });
+      }
+
+      const result = await deleteAlbumWithToken(req.params.id, token);
+
+      if (result === "not-found") {
+        return res.status(404).json({
+          message: "Album not found",
+        });
+      }
+
+      if (result === "invalid-token") {
+        return res.status(403).json({
+          message: "Invalid delete token",
+        });
+      }
+
+      res.json({
+        message: "Album deleted",
+      });
+    } catch (error) {
+      console.error("Album delete error:", error);
+      res.status(500).json({
+        message: "Internal server error during delete",
+      });
+    }
+  });
+
+  // Album gallery page
+  app.get("/a/:id", async (req, res) => {
+    try {
+      const album = await storage.getAlbumById(req.params.id);
+
+      if (!album) {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      const baseUrl = getBaseUrl(req);
+      const albumImages = (await storage.getImagesByAlbumId(album.id)).filter((image) => !isExpired(image));
+
+      res.set({
+        "Cache-Control": "public, max-age=60, s-maxage=60",
+        "Content-Type": "text/html",
+      });
+
+      res.send(generateAlbumPage({
+        url: `${baseUrl}/a/${album.id}`,
+        title: album.title,
+        images: albumImages.map((image) => ({
+          rawUrl: `${baseUrl}/raw/${image.id}`,
+          thumbUrl: isPublicImage(image) ? `${baseUrl}/t/${image.id}` : null,
+          shortUrl: `${baseUrl}/i/${image.id}`,
+        })),
+      }));
+    } catch (error) {
+      console.error("Album view error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  app.get("/a/:id/delete/:token", async (req, res) => {
+    try {
+      const { id, token } = req.params;
+      const album = await storage.getAlbumById(id);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (!album) {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      if (!isValidDeleteToken(album, token)) {
+        return res.status(403).send(generateErrorPage("This delete link is not valid."));
+      }
+
+      res.send(generateDeleteConfirmPage({
+        kind: "album",
+        actionUrl: `/a/${album.id}/delete/${album.deleteToken}`,
+      }));
+    } catch (error) {
+      console.error("Album delete page error:", error);
+      res.status(500).send(generateErrorPage("Internal server error"));
+    }
+  });
+
+  app.post("/a/:id/delete/:token", async (req, res) => {
+    try {
+      const { id, token } = req.params;
+      const result = await deleteAlbumWithToken(id, token);
+
+      res.set({
+        "Cache-Control": "no-store",
+        "Content-Type": "text/html",
+      });
+
+      if (result === "not-found") {
+        return res.status(404).send(generateNotFoundPage());
+      }
+
+      if (result === "invalid-token") {
+        return res.status(403).send(generateErrorPage("This delete link is not valid."));
+      }
+
+      res.send(generateDeletedPage("album"));
+    } catch (error) {
+      console.error("Album delete error:", error);
+      res.status(500).send(generateErrorPage("Internal server error during delete"));
+    }
+  });
+
+  // Locally stored files are only served through /raw and /t, which check
+  // expiry, view limits and passwords; the upload directory isn't exposed
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
+
+// HTML template functions
+function generateImageViewPage(image: {
+  id: string;
+  rawUrl: string;
+  shortUrl: string;
+  previewUrl: string;
+  width: number | null;
+  height: number | null;
+  size: number;
+  mime: string;
+  createdAt: Date | null;
+  // Set for view-limited images: the page is a one-off, so no link preview or share snippets
+  viewsLeft?: number;
+  // Protected pages get no link preview either, since crawlers can't unlock the image
+  passwordProtected?: boolean;
+}) {
+  const limited = image.viewsLeft !== undefined;
+  const formatBytes = (bytes: number): string => {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+  };
+
+  const markdownFormat = `![Image](${image.rawUrl})`;
+  const bbcodeFormat = `[img]${image.rawUrl}[/img]`;
+
+  const viewsLeftText = image.viewsLeft === 0
+    ? "That was the last view. This image is being deleted."
+    : `This image can be viewed ${image.viewsLeft} more ${image.viewsLeft === 1 ? "time" : "times"}.`;
+
+  const snippets = limited
+    ? `
+        <!-- View Limit -->
+        <div class="bg-card border border-border rounded-xl p-6 mb-8 shadow-sm text-center">
+            <p class="text-card-foreground">${viewsLeftText}</p>
+        </div>
+`
+    : `
+        <!-- Copy Snippets -->
+        <div class="bg-card border border-border rounded-xl p-6 mb-8 shadow-sm">
+            <h3 class="text-lg font-medium mb-4 text-card-foreground">Copy snippets</h3>
+            
+            <div class="space-y-4">
+                <div>
+                    <label class="block text-sm font-medium mb-1 text-muted-foreground">Direct URL</label>
+                    <div class="flex gap-2">
+                        <input type="text" value="${image.rawUrl}" readonly 
+                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
+                               aria-label="Direct URL">
+                        <button onclick="copyToClipboard('${image.rawUrl}', 'Direct URL')" 
+                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
+                                aria-label="Copy direct URL">
+                            Copy
+                        </button>
+                    </div>
+                </div>
+                
+                <div>
+                    <label class="block text-sm font-medium mb-1 text-muted-foreground">Markdown</label>
+                    <div class="flex gap-2">
+                        <input type="text" value="${markdownFormat}" readonly 
+                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
+                               aria-label="Markdown format">
+                        <button onclick="copyToClipboard('${markdownFormat}', 'Markdown')" 
+                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
+                                aria-label="Copy markdown">
+                            Copy
+                        </button>
+                    </div>
+                </div>
+                
+                <div>
+                    <label class="block text-sm font-medium mb-1 text-muted-foreground">BBCode</label>
+                    <div class="flex gap-2">
+                        <input type="text" value="${bbcodeFormat}" readonly 
+                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
+                               aria-label="BBCode format">
+                        <button onclick="copyToClipboard('${bbcodeFormat}', 'BBCode')" 
+                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
+                                aria-label="Copy BBCode">
+                            Copy
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+`;
 
-      res.send(html);
-    } catch (error) {
-      console.error("Image view error:", error);
-      res.status(500).send(generateErrorPage("Internal server error"));
-    }
+  return generateLayout({
+    title: "Image",
+    description: "Uploaded image",
+    image: limited || image.passwordProtected ? undefined : image.previewUrl,
+    main: `
+    <main class="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div class="max-w-4xl mx-auto">
+        <!-- Toolbar -->
+        <div style="background-color: hsl(var(--card)); border: 1px solid hsl(var(--border));" class="rounded-xl p-4 mb-4 flex gap-2">
+            <a href="${limited ? image.previewUrl : image.rawUrl}" target="_blank" rel="noopener" 
+               style="background-color: hsl(var(--primary)); color: hsl(var(--primary-foreground));" class="px-4 py-2 rounded-lg hover:opacity-90 transition-opacity"
+               aria-label="Open image file">
+                Open image file
+            </a>
+        </div>
+        
+        <!-- Image Viewer -->
+        <div class="bg-card border border-border rounded-xl p-8 mb-8 text-center shadow-sm">
+            <img src="${image.previewUrl}" alt="Image" class="max-w-full max-h-96 w-auto h-auto mx-auto rounded-lg shadow-lg object-contain" />
+        </div>
+        
+${snippets}
+            <!-- Upload Your Own Button -->
+            <div class="text-center">
+                <a href="/" class="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2"
+                   aria-label="Upload your own image">
+                    Upload your own
+                </a>
+            </div>
+        </div>
+    </main>
+    `,
   });
+}
 
-  // Raw image endpoint
-  app.get("/raw/:id", async (req, res) => {
-    try {
-      const { id } = req.params;
-      const image = await storage.getImageById(id);
-      
-      if (!image) {
-        return res.status(404).json({
-          message: "Image not found",
-        });
-      }
+function generateAlbumPage(album: {
+  url: string;
+  title: string | null;
+  // thumbUrl is null for password-protected and view-limited images
+  images: { rawUrl: string; thumbUrl: string | null; shortUrl: string }[];
+}) {
+  const title = album.title ? escapeHtml(album.title) : "Album";
+  const allLinks = album.images.map((image) => image.rawUrl).join("\n");
+  const count = `${album.images.length} ${album.images.length === 1 ? "image" : "images"}`;
 
-      // Set cache headers for immutable raw image
-      res.set({
-        "Cache-Control": "public, immutable, max-age=31536000",
-        "Content-Type": image.mime,
-      });
+  const tiles = album.images
+    .map((image, index) => `
+            <a href="${image.shortUrl}" class="block bg-muted rounded-lg overflow-hidden aspect-square hover:opacity-90 transition-opacity"
+               aria-label="Open image ${index + 1}">
+                ${image.thumbUrl
+                  ? `<img src="${image.thumbUrl}" alt="Image ${index + 1}" loading="lazy" class="w-full h-full object-cover" />`
+                  : `<span class="flex items-center justify-center w-full h-full text-sm text-muted-foreground">Open to view</span>`}
+            </a>`)
+    .join("");
 
-      // For local storage, serve from uploads directory
-      if (image.provider === "local") {
-        const filePath = path.join(process.cwd(), "uploads", image.providerKey);
-        res.sendFile(filePath);
-      } else {
-        // For cloudinary, redirect to their URL
-        res.redirect(image.rawUrl);
-      }
-    } catch (error) {
-      console.error("Raw image error:", error);
-      res.status(500).json({
-        message: "Internal server error",
-      });
-    }
-  });
+  return generateLayout({
+    title,
+    description: `Album with ${count}`,
+    image: album.images.find((image) => image.thumbUrl)?.thumbUrl ?? undefined,
+    main: `
+    <main class="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div class="max-w-5xl mx-auto">
+        <!-- Toolbar -->
+        <div style="background-color: hsl(var(--card)); border: 1px solid hsl(var(--border));" class="rounded-xl p-4 mb-4 flex flex-wrap items-center gap-2">
+            <h2 class="text-lg font-medium text-card-foreground mr-auto">${title} <span class="text-sm text-muted-foreground">(${count})</span></h2>
+            <button onclick="copyToClipboard('${album.url}', 'Album link')"
+                    style="background-color: hsl(var(--primary)); color: hsl(var(--primary-foreground));" class="px-4 py-2 rounded-lg hover:opacity-90 transition-opacity"
+                    aria-label="Copy album link">
+                Copy album link
+            </button>
+            <button onclick="copyToClipboard(document.getElementById('all-links').value, 'All links')"
+                    class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
+                    aria-label="Copy all image links">
+                Copy all links
+            </button>
+            <textarea id="all-links" class="hidden" readonly>${allLinks}</textarea>
+        </div>
 
-  // Serve uploaded files for local storage
-  if (process.env.STORAGE_PROVIDER !== "cloudinary") {
-    app.use("/uploads", express.static(path.join(process.cwd(), "uploads"), {
-      maxAge: "1y",
-      immutable: true,
-    }));
-  }
+        <!-- Gallery -->
+        <div class="bg-card border border-border rounded-xl p-4 mb-8 shadow-sm">
+            ${album.images.length > 0
+              ? `<div class="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">${tiles}
+            </div>`
+              : `<p class="text-center text-muted-foreground py-12">This album is empty.</p>`}
+        </div>
 
-  const httpServer = createServer(app);
-  return httpServer;
+            <!-- Upload Your Own Button -->
+            <div class="text-center">
+                <a href="/" class="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2"
+                   aria-label="Upload your own image">
+                    Upload your own
+                </a>
+            </div>
+        </div>
+    </main>
+    `,
+  });
 }
 
-// HTML template functions
-function generateImageViewPage(image: {
-  id: string;
-  rawUrl: string;
-  shortUrl: string;
-  width: number | null;
-  height: number | null;
-  size: number;
-  mime: string;
-  createdAt: Date | null;
-}) {
-  const formatBytes = (bytes: number): string => {
-    if (bytes === 0) return "0 B";
-    const k = 1024;
-    const sizes = ["B", "KB", "MB", "GB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
-  };
-
-  const markdownFormat = `![Image](${image.rawUrl})`;
-  const bbcodeFormat = `[img]${image.rawUrl}[/img]`;
+// Escapes user-supplied text (e.g. album titles) before it goes into HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
 
+// Shared page chrome (head, header, footer, theme and clipboard scripts) for server-rendered pages
+// `image` becomes the link-preview (Open Graph) image; pass a resized variant, not the original
+function generateLayout(page: { title: string; description: string; main: string; image?: string }) {
   return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Image</title>
-    <meta name="description" content="Uploaded image">
+    <title>${page.title}</title>
+    <meta name="description" content="${page.description}">
+    <meta property="og:title" content="${page.title}">
+    <meta property="og:description" content="${page.description}">${page.image ? `
+    <meta property="og:image" content="${page.image}">
+    <meta name="twitter:card" content="summary_large_image">` : ""}
     
     <link rel="preconnect" href="https://fonts.googleapis.com">
     <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
@@ -377,81 +1798,7 @@ function generateImageViewPage(image: {
         </div>
     </header>
 
-    <main class="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div class="max-w-4xl mx-auto">
-        <!-- Toolbar -->
-        <div style="background-color: hsl(var(--card)); border: 1px solid hsl(var(--border));" class="rounded-xl p-4 mb-4 flex gap-2">
-            <a href="${image.rawUrl}" target="_blank" rel="noopener" 
-               style="background-color: hsl(var(--primary)); color: hsl(var(--primary-foreground));" class="px-4 py-2 rounded-lg hover:opacity-90 transition-opacity"
-               aria-label="Open image file">
-                Open image file
-            </a>
-        </div>
-        
-        <!-- Image Viewer -->
-        <div class="bg-card border border-border rounded-xl p-8 mb-8 text-center shadow-sm">
-            <img src="${image.rawUrl}" alt="Image" class="max-w-full max-h-96 w-auto h-auto mx-auto rounded-lg shadow-lg object-contain" />
-        </div>
-        
-        <!-- Copy Snippets -->
-        <div class="bg-card border border-border rounded-xl p-6 mb-8 shadow-sm">
-            <h3 class="text-lg font-medium mb-4 text-card-foreground">Copy snippets</h3>
-            
-            <div class="space-y-4">
-                <div>
-                    <label class="block text-sm font-medium mb-1 text-muted-foreground">Direct URL</label>
-                    <div class="flex gap-2">
-                        <input type="text" value="${image.rawUrl}" readonly 
-                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
-                               aria-label="Direct URL">
-                        <button onclick="copyToClipboard('${image.rawUrl}', 'Direct URL')" 
-                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
-                                aria-label="Copy direct URL">
-                            Copy
-                        </button>
-                    </div>
-                </div>
-                
-                <div>
-                    <label class="block text-sm font-medium mb-1 text-muted-foreground">Markdown</label>
-                    <div class="flex gap-2">
-                        <input type="text" value="${markdownFormat}" readonly 
-                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
-                               aria-label="Markdown format">
-                        <button onclick="copyToClipboard('${markdownFormat}', 'Markdown')" 
-                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
-                                aria-label="Copy markdown">
-                            Copy
-                        </button>
-                    </div>
-                </div>
-                
-                <div>
-                    <label class="block text-sm font-medium mb-1 text-muted-foreground">BBCode</label>
-                    <div class="flex gap-2">
-                        <input type="text" value="${bbcodeFormat}" readonly 
-                               class="flex-1 p-2 rounded-lg font-mono text-sm bg-input border border-border text-foreground"
-                               aria-label="BBCode format">
-                        <button onclick="copyToClipboard('${bbcodeFormat}', 'BBCode')" 
-                                class="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-4 py-2 rounded-lg transition-colors"
-                                aria-label="Copy BBCode">
-                            Copy
-                        </button>
-                    </div>
-                </div>
-            </div>
-        </div>
-        
-            <!-- Upload Your Own Button -->
-            <div class="text-center">
-                <a href="/" class="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2"
-                   aria-label="Upload your own image">
-                    Upload your own
-                </a>
-            </div>
-        </div>
-    </main>
-    
+${page.main}    
     <!-- Footer - Exact same as original site -->
     <footer class="border-t border-border bg-card mt-16">
         <div class="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -537,6 +1884,7 @@ function generateImageViewPage(image: {
   `;
 }
 
+
 function generateNotFoundPage() {
   return `
 <!DOCTYPE html>
@@ -558,6 +1906,27 @@ function generateNotFoundPage() {
   `;
 }
 
+function generateExpiredPage() {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Image Expired</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center">
+    <div class="text-center bg-white p-8 rounded-lg border max-w-md">
+        <h1 class="text-xl font-medium mb-2">Image Expired</h1>
+        <p class="text-gray-600 mb-4">This image was set to expire and is no longer available.</p>
+        <a href="/" class="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">Upload New Image</a>
+    </div>
+</body>
+</html>
+  `;
+}
+
 function generateErrorPage(message: string) {
   return `
 <!DOCTYPE html>
@@ -578,3 +1947,122 @@ function generateErrorPage(message: string) {
 </html>
   `;
 }
+
+function generateUnlockPage(page: { actionUrl: string; error?: string }) {
+  const error = page.error
+    ? `<p class="text-red-600 text-sm mb-4">${page.error}</p>`
+    : "";
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>Password Required</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center">
+    <div class="text-center bg-white p-8 rounded-lg border max-w-md">
+        <h1 class="text-xl font-medium mb-2">Password required</h1>
+        <p class="text-gray-600 mb-4">This image is password protected. Enter the password to view it.</p>
+        ${error}
+        <form method="post" action="${page.actionUrl}" class="flex justify-center gap-2">
+            <input type="password" name="password" required autofocus autocomplete="off" aria-label="Password"
+                   class="border rounded px-3 py-2 flex-1">
+            <button type="submit" class="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">Unlock</button>
+        </form>
+    </div>
+</body>
+</html>
+  `;
+}
+
+// Shown before a view-limited image is revealed; only the form's POST uses up a view,
+// so link previews and crawlers fetching the page don't
+function generateViewLimitPage(page: { viewsLeft: number; actionUrl: string }) {
+  const warning = page.viewsLeft === 1
+    ? "This image can only be viewed once. It will be deleted after you open it."
+    : `This image can be viewed ${page.viewsLeft} more times. Opening it uses one view.`;
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>View-limited Image</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center">
+    <div class="text-center bg-white p-8 rounded-lg border max-w-md">
+        <h1 class="text-xl font-medium mb-2">View-limited image</h1>
+        <p class="text-gray-600 mb-4">${warning}</p>
+        <form method="post" action="${page.actionUrl}">
+            <button type="submit" class="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">View Image</button>
+        </form>
+    </div>
+</body>
+</html>
+  `;
+}
+
+function generateDeleteConfirmPage(page: { kind: "image" | "album"; previewUrl?: string; actionUrl: string }) {
+  const label = page.kind === "album" ? "Album" : "Image";
+  const consequence = page.kind === "album"
+    ? "This permanently removes the album and every image in it."
+    : "This permanently removes the image and breaks every link to it.";
+  const preview = page.previewUrl
+    ? `<img src="${page.previewUrl}" alt="Image to delete" class="max-w-full max-h-64 mx-auto rounded mb-4 object-contain" />`
+    : "";
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>Delete ${label}</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center">
+    <div class="text-center bg-white p-8 rounded-lg border max-w-md">
+        <h1 class="text-xl font-medium mb-2">Delete this ${page.kind}?</h1>
+        ${preview}
+        <p class="text-gray-600 mb-4">${consequence}</p>
+        <form method="post" action="${page.actionUrl}" class="flex justify-center gap-2">
+            <button type="submit" class="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700">Delete ${label}</button>
+            <a href="/" class="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300">Cancel</a>
+        </form>
+    </div>
+</body>
+</html>
+  `;
+}
+
+function generateDeletedPage(kind: "image" | "album") {
+  const label = kind === "album" ? "Album" : "Image";
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>${label} Deleted</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="bg-gray-50 min-h-screen flex items-center justify-center">
+    <div class="text-center bg-white p-8 rounded-lg border max-w-md">
+        <h1 class="text-xl font-medium mb-2">${label} Deleted</h1>
+        <p class="text-gray-600 mb-4">The ${kind} has been removed and its links no longer work.</p>
+        <a href="/" class="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">Upload New Image</a>
+    </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,71 @@
+import { parseArgs } from "util";
+import { imageProviders } from "@shared/schema";
+import { storage, MemStorage } from "../storage.js";
+import { type ProviderName } from "../providers/index.js";
+import { migrateStorage } from "../services/storage-migration.js";
+
+// npm run storage:migrate -- --from local --to s3 [--dry-run] [--delete-source] [--limit 500]
+// Uses the same DATABASE_URL and provider settings as the server, and can run
+// while the server is up: images stay readable from one provider or the other.
+
+const USAGE = "Usage: npm run storage:migrate -- --from <provider> --to <provider> [--dry-run] [--delete-source] [--limit <n>]";
+
+function parseProvider(value: string | undefined, flag: string): ProviderName {
+  if (!value || !(imageProviders as readonly string[]).includes(value)) {
+    throw new Error(`--${flag} must be one of: ${imageProviders.join(", ")}`);
+  }
+  return value as ProviderName;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      "delete-source": { type: "boolean", default: false },
+      limit: { type: "string" },
+    },
+  });
+
+  const from = parseProvider(values.from, "from");
+  const to = parseProvider(values.to, "to");
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error("--limit must be a positive whole number");
+  }
+  if (storage instanceof MemStorage) {
+    throw new Error("DATABASE_URL must point at the database whose images should move");
+  }
+
+  const dryRun = values["dry-run"];
+  console.log(`${dryRun ? "Dry run: " : ""}moving images from ${from} to ${to}`);
+
+  const summary = await migrateStorage({
+    from,
+    to,
+    dryRun,
+    deleteSource: values["delete-source"],
+    limit,
+    onImage: (image, result) => {
+      const detail = result.error ?? result.providerKey ?? "";
+      console.log(`${image.id} ${result.status}${detail ? ` ${detail}` : ""}`);
+    },
+  });
+
+  const mb = (summary.bytes / (1024 * 1024)).toFixed(1);
+  console.log(dryRun
+    ? `${summary["would-move"]} image(s), ${mb} MB, would move; ${summary.missing} missing from ${from}`
+    : `${summary.moved} moved (${mb} MB), ${summary.missing} missing, ${summary["checksum-mismatch"]} checksum mismatches, ${summary.changed} changed during the copy, ${summary.failed} failed`);
+
+  // Anything left behind is still on the source; running again retries it
+  return summary.failed + summary["checksum-mismatch"] > 0 ? 1 : 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exit(2);
+  });
@@ -0,0 +1,337 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto, { createHash } from "crypto";
+import { syncBuiltinESMExports } from "module";
+import { Readable } from "stream";
+import type { StoragePolicy } from "../providers/routing.js";
+import type { StrippedImage } from "../utils/metadata.js";
+import { getProvider } from "../providers/index.js";
+
+// The service works on the process-wide store, which DATABASE_URL picks when
+// it's first imported; these tests want the in-memory one
+delete process.env.DATABASE_URL;
+const { storage } = await import("../storage.js");
+const {
+  storeImageContent,
+  releaseImageContent,
+  deleteImageWithToken,
+  deleteUnreferencedBlobs,
+  isValidDeleteToken,
+  consumeView,
+  hasViewsLeft,
+  LAST_VIEW_GRACE_MS,
+} = await import("./image-service.js");
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-service-test-"));
+
+after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+describe("image storage and removal", () => {
+  const policy: StoragePolicy = { rules: [], fallback: { provider: "local", replica: null } };
+  const content = Buffer.from("identical bytes, uploaded more than once");
+  const stripped: StrippedImage = { size: content.length, sha256: sha256(content), open: () => Readable.from([content]) };
+  const cwd = process.cwd();
+
+  // The local provider stores under ./uploads
+  before(() => {
+    process.chdir(tempDir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+  });
+
+  const upload = async (image: StrippedImage = stripped) => {
+    const stored = await storeImageContent(policy, image, { filename: "a.png", mime: "image/png" });
+    return storage.createImage({
+      ...stored,
+      sha256: image.sha256,
+      width: null,
+      height: null,
+      mime: "image/png",
+      size: image.size,
+    });
+  };
+
+  const storedFile = (providerKey: string) => path.join(tempDir, "uploads", providerKey);
+
+  it("stores identical uploads once and deletes the file with the last image", async () => {
+    const first = await upload();
+    const second = await upload();
+
+    assert.notEqual(first.id, second.id);
+    assert.equal(second.providerKey, first.providerKey);
+    assert.deepEqual(fs.readFileSync(storedFile(first.providerKey)), content);
+    assert.equal(fs.readdirSync(path.join(tempDir, "uploads")).length, 1);
+
+    assert.equal(await deleteImageWithToken(first.id, first.deleteToken), "deleted");
+    assert.ok(fs.existsSync(storedFile(first.providerKey)), "removed while still referenced");
+
+    assert.equal(await deleteImageWithToken(second.id, second.deleteToken), "deleted");
+    assert.ok(!fs.existsSync(storedFile(first.providerKey)));
+    assert.equal(await storage.acquireBlob(stripped.sha256), undefined);
+  });
+
+  it("drops one reference however often the same image is deleted", async () => {
+    const first = await upload();
+    const second = await upload();
+
+    const results = await Promise.all([
+      deleteImageWithToken(first.id, first.deleteToken),
+      deleteImageWithToken(first.id, first.deleteToken),
+    ]);
+    assert.ok(results.includes("deleted"));
+    assert.ok(fs.existsSync(storedFile(second.providerKey)), "removed while still referenced");
+
+    assert.equal(await deleteImageWithToken(second.id, second.deleteToken), "deleted");
+    assert.ok(!fs.existsSync(storedFile(second.providerKey)));
+  });
+
+  it("gives the reference back for an image that wasn't created", async () => {
+    const kept = await upload();
+    const stored = await storeImageContent(policy, stripped, { filename: "a.png", mime: "image/png" });
+    assert.equal((await storage.getBlob(stripped.sha256))?.refCount, 2);
+
+    await releaseImageContent(stripped.sha256);
+    assert.equal((await storage.getBlob(stripped.sha256))?.refCount, 1);
+
+    // Now the last one out removes the file
+    await deleteImageWithToken(kept.id, kept.deleteToken);
+    assert.ok(!fs.existsSync(storedFile(stored.providerKey)));
+    assert.equal(await storage.getBlob(stripped.sha256), undefined);
+  });
+
+  it("stores the content again once every earlier copy is gone", async () => {
+    const first = await upload();
+    await deleteImageWithToken(first.id, first.deleteToken);
+
+    const again = await upload();
+    assert.notEqual(again.providerKey, first.providerKey);
+    assert.deepEqual(fs.readFileSync(storedFile(again.providerKey)), content);
+    await deleteImageWithToken(again.id, again.deleteToken);
+  });
+
+  it("deletes images from before deduplication with their own file", async () => {
+    const stored = await upload();
+    // Such rows have no hash, and their object has no blob
+    await storage.releaseBlob(stripped.sha256);
+    await storage.deleteBlob(stripped.sha256);
+    const legacy = await storage.updateImage(stored.id, { sha256: null });
+    assert.ok(legacy);
+
+    assert.equal(await deleteImageWithToken(legacy.id, legacy.deleteToken), "deleted");
+    assert.ok(!fs.existsSync(storedFile(legacy.providerKey)));
+    assert.equal(await storage.getImageById(legacy.id), undefined);
+  });
+
+  it("keeps the blob for a later try when the provider can't delete it", async () => {
+    const image = await upload();
+    const failing = mock.method(getProvider("local"), "delete", async () => {
+      throw new Error("provider unavailable");
+    });
+
+    try {
+      // The image itself goes regardless
+      assert.equal(await deleteImageWithToken(image.id, image.deleteToken), "deleted");
+      assert.equal(await storage.getImageById(image.id), undefined);
+      assert.ok(fs.existsSync(storedFile(image.providerKey)));
+      assert.deepEqual((await storage.getUnreferencedBlobs(10)).map((blob) => blob.providerKey), [image.providerKey]);
+      assert.equal(await deleteUnreferencedBlobs(), 0);
+    } finally {
+      failing.mock.restore();
+    }
+
+    assert.equal(await deleteUnreferencedBlobs(), 1);
+    assert.ok(!fs.existsSync(storedFile(image.providerKey)));
+    assert.equal(await storage.getBlob(stripped.sha256), undefined);
+  });
+
+  it("finishes deleting a left-over blob when its content is uploaded again", async () => {
+    const first = await upload();
+    const failing = mock.method(getProvider("local"), "delete", async () => {
+      throw new Error("provider unavailable");
+    });
+    await deleteImageWithToken(first.id, first.deleteToken);
+    failing.mock.restore();
+
+    const again = await upload();
+    assert.notEqual(again.providerKey, first.providerKey);
+    assert.ok(!fs.existsSync(storedFile(first.providerKey)));
+    assert.equal((await storage.getBlob(stripped.sha256))?.providerKey, again.providerKey);
+    await deleteImageWithToken(again.id, again.deleteToken);
+  });
+});
+
+describe("delete tokens", () => {
+  const policy: StoragePolicy = { rules: [], fallback: { provider: "local", replica: null } };
+  const content = Buffer.from("bytes deleted by token");
+  const stripped: StrippedImage = { size: content.length, sha256: sha256(content), open: () => Readable.from([content]) };
+  const cwd = process.cwd();
+
+  before(() => {
+    process.chdir(tempDir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+  });
+
+  const upload = async () => {
+    const stored = await storeImageContent(policy, stripped, { filename: "a.png", mime: "image/png" });
+    return storage.createImage({ ...stored, sha256: stripped.sha256, width: null, height: null, mime: "image/png", size: stripped.size });
+  };
+
+  it("deletes the image and its file with the right token", async () => {
+    const image = await upload();
+
+    assert.equal(await deleteImageWithToken(image.id, image.deleteToken), "deleted");
+    assert.equal(await storage.getImageById(image.id), undefined);
+    assert.ok(!fs.existsSync(path.join(tempDir, "uploads", image.providerKey)));
+    assert.equal(await deleteImageWithToken(image.id, image.deleteToken), "not-found");
+  });
+
+  it("keeps the image for any other token", async () => {
+    const image = await upload();
+    const { deleteToken } = image;
+    const wrong = ["", deleteToken.slice(0, -1), `${deleteToken}x`, [...deleteToken].reverse().join("")];
+
+    for (const token of wrong.filter((token) => token !== deleteToken)) {
+      assert.equal(await deleteImageWithToken(image.id, token), "invalid-token", token);
+    }
+    assert.equal(await deleteImageWithToken("missing", deleteToken), "not-found");
+    assert.ok(await storage.getImageById(image.id));
+    assert.ok(fs.existsSync(path.join(tempDir, "uploads", image.providerKey)));
+
+    await deleteImageWithToken(image.id, image.deleteToken);
+  });
+
+  it("compares tokens of the same length in constant time", () => {
+    const record = { deleteToken: "abcdefghij" };
+    // The builtin's named exports only see the mock once they're synced
+    const compare = mock.method(crypto, "timingSafeEqual");
+    syncBuiltinESMExports();
+
+    try {
+      assert.equal(isValidDeleteToken(record, "abcdefghij"), true);
+      assert.equal(isValidDeleteToken(record, "abcdefghiX"), false);
+      assert.equal(compare.mock.callCount(), 2);
+
+      // Other lengths are rejected up front; timingSafeEqual would throw on them
+      assert.equal(isValidDeleteToken(record, "abc"), false);
+      assert.equal(isValidDeleteToken(record, "abcdefghijk"), false);
+      // Same number of characters but more bytes
+      assert.equal(isValidDeleteToken(record, "abcdefghié"), false);
+      assert.equal(compare.mock.callCount(), 2);
+    } finally {
+      compare.mock.restore();
+      syncBuiltinESMExports();
+    }
+  });
+});
+
+describe("view limits", () => {
+  const policy: StoragePolicy = { rules: [], fallback: { provider: "local", replica: null } };
+  const content = Buffer.from("bytes behind a view limit");
+  const stripped: StrippedImage = { size: content.length, sha256: sha256(content), open: () => Readable.from([content]) };
+  const cwd = process.cwd();
+
+  before(() => {
+    process.chdir(tempDir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const upload = async (changes: { maxViews: number | null; expiresAt?: Date }) => {
+    const stored = await storeImageContent(policy, stripped, { filename: "a.png", mime: "image/png" });
+    return storage.createImage({
+      ...stored,
+      ...changes,
+      sha256: stripped.sha256,
+      width: null,
+      height: null,
+      mime: "image/png",
+      size: stripped.size,
+    });
+  };
+
+  // Removal runs from a timer and goes on asynchronously
+  const waitForRemoval = async (id: string) => {
+    for (let i = 0; i < 100 && (await storage.getImageById(id)); i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  it("counts views of unlimited images without expiring them", async () => {
+    const image = await upload({ maxViews: null });
+
+    for (let i = 0; i < 3; i++) {
+      const viewed = await consumeView(image.id);
+      assert.ok(viewed && hasViewsLeft(viewed));
+      assert.equal(viewed.expiresAt, null);
+    }
+    assert.equal((await storage.getImageById(image.id))?.views, 3);
+    await deleteImageWithToken(image.id, image.deleteToken);
+  });
+
+  it("hands out exactly the allowed views, however many arrive at once", async () => {
+    const image = await upload({ maxViews: 3 });
+
+    const results = await Promise.all(Array.from({ length: 6 }, () => consumeView(image.id)));
+    assert.equal(results.filter(Boolean).length, 3);
+    assert.equal(await consumeView(image.id), undefined);
+
+    const stored = await storage.getImageById(image.id);
+    assert.equal(stored?.views, 3);
+    assert.equal(stored && hasViewsLeft(stored), false);
+    await deleteImageWithToken(image.id, image.deleteToken);
+  });
+
+  it("keeps an image for the grace period after its last view, then deletes it", async () => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: new Date("2026-01-01T00:00:00Z") });
+    const image = await upload({ maxViews: 2 });
+
+    const first = await consumeView(image.id);
+    assert.equal(first?.expiresAt, null);
+
+    const last = await consumeView(image.id);
+    assert.deepEqual(last?.expiresAt, new Date(Date.now() + LAST_VIEW_GRACE_MS));
+
+    mock.timers.tick(LAST_VIEW_GRACE_MS - 1);
+    assert.ok(await storage.getImageById(image.id), "deleted before the grace period was up");
+    assert.ok(fs.existsSync(path.join(tempDir, "uploads", image.providerKey)));
+
+    mock.timers.tick(1);
+    await waitForRemoval(image.id);
+    assert.equal(await storage.getImageById(image.id), undefined);
+    assert.ok(!fs.existsSync(path.join(tempDir, "uploads", image.providerKey)));
+  });
+
+  it("doesn't extend an earlier expiry with the grace period", async () => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: new Date("2026-01-01T00:00:00Z") });
+    const expiresAt = new Date(Date.now() + 1000);
+    const image = await upload({ maxViews: 1, expiresAt });
+
+    assert.deepEqual((await consumeView(image.id))?.expiresAt, expiresAt);
+
+    mock.timers.tick(1000);
+    await waitForRemoval(image.id);
+    assert.equal(await storage.getImageById(image.id), undefined);
+  });
+
+  it("is undefined for images that don't exist", async () => {
+    assert.equal(await consumeView("missing"), undefined);
+  });
+});
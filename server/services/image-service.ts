@@ -0,0 +1,242 @@
+import { timingSafeEqual } from "crypto";
+import { type Image, type ImageBlob } from "@shared/schema";
+import { storage } from "../storage.js";
+import { deleteStoredCopies, storeImage, type StoragePolicy, type StoredImage } from "../providers/routing.js";
+import type { StrippedImage } from "../utils/metadata.js";
+
+export type DeleteResult = "deleted" | "not-found" | "invalid-token" | "forbidden";
+
+// Constant-time comparison so tokens can't be guessed from response timing
+export function isValidDeleteToken(record: { deleteToken: string }, deleteToken: string): boolean {
+  const expected = Buffer.from(record.deleteToken);
+  const actual = Buffer.from(deleteToken);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// How long a view-limited image stays readable after its last view, so the page
+// that used the view can still load the bytes and redirects can be followed
+export const LAST_VIEW_GRACE_MS = 60 * 1000;
+
+export function hasViewsLeft(image: Image): boolean {
+  return image.maxViews === null || image.views < image.maxViews;
+}
+
+// Stores an upload's bytes once per distinct content: when a blob with the
+// same SHA-256 already exists, the new image takes a reference to it instead.
+// An image that then isn't created must give the reference back with releaseImageContent.
+export async function storeImageContent(
+  policy: StoragePolicy,
+  image: StrippedImage,
+  details: { filename: string; mime: string },
+): Promise<StoredImage> {
+  // A blob can go (its last image deleted) or appear (an identical upload
+  // finishing first) between the steps below; then go round again
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const existing = await storage.acquireBlob(image.sha256);
+    if (existing) {
+      return {
+        provider: existing.provider,
+        providerKey: existing.providerKey,
+        rawUrl: existing.rawUrl,
+        replicaProvider: existing.replicaProvider,
+        replicaKey: existing.replicaKey,
+        replicaUrl: existing.replicaUrl,
+        width: existing.width ?? undefined,
+        height: existing.height ?? undefined,
+      };
+    }
+
+    const stored = await storeImage(policy, image, details);
+    const created = await storage.createBlob({
+      ...stored,
+      sha256: image.sha256,
+      width: stored.width ?? null,
+      height: stored.height ?? null,
+    });
+    if (created) return stored;
+
+    // An identical upload got there first, or the last image of an earlier
+    // blob went but its copies haven't been deleted yet: use the one, finish
+    // deleting the other
+    await deleteStoredCopies(stored).catch((error) => console.error("Failed to delete duplicate upload:", error));
+    const unreferenced = await storage.getBlob(image.sha256);
+    if (unreferenced?.refCount === 0) await deleteUnreferencedBlob(unreferenced);
+  }
+
+  throw new Error("Could not store the image, please try again");
+}
+
+// Deletes the stored copies of a blob with no references left, then its row,
+// so a provider failure leaves the row for a later try
+async function deleteUnreferencedBlob(blob: ImageBlob): Promise<void> {
+  await deleteStoredCopies(blob);
+  await storage.deleteBlob(blob.sha256);
+}
+
+// Gives back a reference taken by storeImageContent, deleting the stored copies
+// when it was the last. A failed delete is logged; deleteUnreferencedBlobs retries it.
+export async function releaseImageContent(sha256: string): Promise<void> {
+  const blob = await storage.releaseBlob(sha256);
+  if (!blob) return;
+
+  await deleteUnreferencedBlob(blob).catch((error) => {
+    console.error(`Failed to delete stored copies of blob ${sha256}:`, error);
+  });
+}
+
+// Removes the record, then the stored bytes (replica included) through their
+// own providers once no other image shares them
+async function removeImage(image: Image): Promise<void> {
+  if (!image.sha256) {
+    // Stored before deduplication: the object is this image's alone
+    await deleteStoredCopies(image);
+    await storage.deleteImage(image.id, image.deleteToken);
+    return;
+  }
+
+  // Record first, so deleting the same image twice can't drop two references
+  if (!(await storage.deleteImage(image.id, image.deleteToken))) return;
+
+  await releaseImageContent(image.sha256);
+}
+
+export async function deleteImageWithToken(id: string, deleteToken: string): Promise<DeleteResult> {
+  const image = await storage.getImageById(id);
+
+  if (!image) {
+    return "not-found";
+  }
+
+  if (!isValidDeleteToken(image, deleteToken)) {
+    return "invalid-token";
+  }
+
+  await removeImage(image);
+  return "deleted";
+}
+
+// Signed-in owners manage their uploads without the delete token
+export async function deleteOwnedImage(id: string, ownerId: string): Promise<DeleteResult> {
+  const image = await storage.getImageById(id);
+
+  if (!image) {
+    return "not-found";
+  }
+
+  if (image.ownerId !== ownerId) {
+    return "forbidden";
+  }
+
+  await removeImage(image);
+  return "deleted";
+}
+
+// Counts a view of a view-limited image. Returns undefined when none were left.
+// The last view expires the image after a short grace period and deletes it then.
+export async function consumeView(id: string): Promise<Image | undefined> {
+  const image = await storage.recordView(id);
+
+  if (!image || hasViewsLeft(image)) {
+    return image;
+  }
+
+  const graceEnd = new Date(Date.now() + LAST_VIEW_GRACE_MS);
+  const expiresAt = image.expiresAt && image.expiresAt < graceEnd ? image.expiresAt : graceEnd;
+  const updated = (await storage.updateImage(image.id, { expiresAt })) ?? image;
+
+  // The reaper would get to it too; this just doesn't leave it around for minutes
+  setTimeout(() => {
+    removeImage(updated).catch((error) => console.error(`Failed to delete used-up image ${image.id}:`, error));
+  }, expiresAt.getTime() - Date.now()).unref();
+
+  return updated;
+}
+
+// Deleting an album takes its images down with it
+export async function deleteAlbumWithToken(id: string, deleteToken: string): Promise<DeleteResult> {
+  const album = await storage.getAlbumById(id);
+
+  if (!album) {
+    return "not-found";
+  }
+
+  if (!isValidDeleteToken(album, deleteToken)) {
+    return "invalid-token";
+  }
+
+  for (const image of await storage.getImagesByAlbumId(id)) {
+    await removeImage(image);
+  }
+  await storage.deleteAlbum(id, deleteToken);
+
+  return "deleted";
+}
+
+// Deletes images whose expiry has passed, a batch at a time. Stops early if a
+// provider delete fails so the same rows aren't retried in a tight loop.
+export async function deleteExpiredImages(now = new Date()): Promise<number> {
+  const BATCH_SIZE = 100;
+  let deleted = 0;
+
+  while (true) {
+    const expired = await storage.getExpiredImages(now, BATCH_SIZE);
+
+    for (const image of expired) {
+      try {
+        await removeImage(image);
+        deleted++;
+      } catch (error) {
+        console.error(`Failed to delete expired image ${image.id}:`, error);
+        return deleted;
+      }
+    }
+
+    if (expired.length < BATCH_SIZE) {
+      return deleted;
+    }
+  }
+}
+
+// Deletes the stored copies of blobs whose last image went while their
+// provider was failing. Stops at the first failure, like deleteExpiredImages.
+export async function deleteUnreferencedBlobs(): Promise<number> {
+  const BATCH_SIZE = 100;
+  let deleted = 0;
+
+  while (true) {
+    const unreferenced = await storage.getUnreferencedBlobs(BATCH_SIZE);
+
+    for (const blob of unreferenced) {
+      try {
+        await deleteUnreferencedBlob(blob);
+        deleted++;
+      } catch (error) {
+        console.error(`Failed to delete stored copies of blob ${blob.sha256}:`, error);
+        return deleted;
+      }
+    }
+
+    if (unreferenced.length < BATCH_SIZE) {
+      return deleted;
+    }
+  }
+}
+
+// Runs deleteExpiredImages and deleteUnreferencedBlobs on a timer for the life of the process
+export function startExpiryReaper(intervalMs = 5 * 60 * 1000): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    deleteExpiredImages()
+      .then((count) => {
+        if (count > 0) console.log(`Deleted ${count} expired image(s)`);
+      })
+      .then(() => deleteUnreferencedBlobs())
+      .then((count) => {
+        if (count > 0) console.log(`Deleted ${count} unreferenced stored object(s)`);
+      })
+      .catch((error) => console.error("Expiry reaper error:", error));
+  }, intervalMs);
+
+  // Don't keep the process alive just for the reaper
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,199 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import type { Image } from "@shared/schema";
+import { getProvider } from "../providers/index.js";
+import { toNodeStream, type StorageProvider, type ImageLocation, type StoredObjectStat } from "../providers/storage-provider.js";
+import type { StorageMigrationOptions } from "./storage-migration.js";
+
+// The migration works on the process-wide store, which DATABASE_URL picks
+// when it's first imported; these tests want the in-memory one
+delete process.env.DATABASE_URL;
+const { storage } = await import("../storage.js");
+const { migrateStorage } = await import("./storage-migration.js");
+
+// Stands in for a remote provider, keeping objects in memory
+class MemoryProvider implements StorageProvider {
+  objects = new Map<string, Buffer>();
+  reencode = false;    // reads come back altered, as if the provider re-encoded the upload
+  failUploads = false;
+  private nextKey = 0;
+
+  async uploadImage(input: { file: Buffer | ReadableStream<Uint8Array> }) {
+    const body = Buffer.concat(await toNodeStream(input.file).toArray());
+    if (this.failUploads) throw new Error("provider unavailable");
+
+    const providerKey = `copy-${this.nextKey++}`;
+    this.objects.set(providerKey, body);
+    return { providerKey, rawUrl: `https://cdn.example/${providerKey}` };
+  }
+
+  async delete(providerKey: string): Promise<void> {
+    this.objects.delete(providerKey);
+  }
+
+  async getOriginal(_providerKey: string, rawUrl: string): Promise<ImageLocation> {
+    return { url: rawUrl };
+  }
+
+  async getStream(providerKey: string): Promise<Readable> {
+    const body = this.objects.get(providerKey);
+    if (!body) throw new Error(`No object ${providerKey}`);
+    return Readable.from([this.reencode ? Buffer.concat([body, Buffer.from("re-encoded")]) : body]);
+  }
+
+  async stat(providerKey: string): Promise<StoredObjectStat | null> {
+    const body = this.objects.get(providerKey);
+    return body ? { size: body.length } : null;
+  }
+
+  async exists(providerKey: string): Promise<boolean> {
+    return this.objects.has(providerKey);
+  }
+
+  async getVariant(providerKey: string): Promise<ImageLocation> {
+    return { key: providerKey };
+  }
+}
+
+describe("migrateStorage", () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-migration-test-"));
+  const cwd = process.cwd();
+  const target = new MemoryProvider();
+  let created: Image[] = [];
+
+  // The local provider stores under ./uploads; "cloudinary" is the fake
+  before(() => {
+    process.chdir(tempDir);
+    const cloudinary = getProvider("cloudinary");
+    for (const method of ["uploadImage", "delete", "getOriginal", "getStream", "stat", "exists", "getVariant"] as const) {
+      mock.method(cloudinary, method, target[method].bind(target));
+    }
+  });
+
+  after(() => {
+    mock.restoreAll();
+    process.chdir(cwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    for (const image of created) {
+      await storage.deleteImage(image.id, image.deleteToken);
+    }
+    created = [];
+    target.objects.clear();
+    target.reencode = false;
+    target.failUploads = false;
+  });
+
+  const storedFile = (providerKey: string) => path.join(tempDir, "uploads", providerKey);
+
+  // A local image; pass another one to share its stored object
+  async function createLocalImage(content: string, sharing?: Image): Promise<Image> {
+    const stored = sharing ?? await getProvider("local").uploadImage({
+      file: Buffer.from(content),
+      filename: "a.png",
+      mime: "image/png",
+    });
+    const image = await storage.createImage({
+      provider: "local",
+      providerKey: stored.providerKey,
+      rawUrl: stored.rawUrl,
+      sha256: createHash("sha256").update(content).digest("hex"),
+      width: null,
+      height: null,
+      mime: "image/png",
+      size: content.length,
+    });
+    created.push(image);
+    return image;
+  }
+
+  const migrate = (options: Omit<StorageMigrationOptions, "from" | "to"> = {}) =>
+    migrateStorage({ from: "local", to: "cloudinary", ...options });
+
+  it("copies images, checks the copy and repoints every row sharing the object", async () => {
+    const image = await createLocalImage("first image");
+    const duplicate = await createLocalImage("first image", image);
+    const other = await createLocalImage("second image");
+
+    const summary = await migrate();
+    assert.equal(summary.moved, 2);
+    assert.equal(summary.failed + summary["checksum-mismatch"] + summary.changed + summary.missing, 0);
+    assert.equal(summary.bytes, "first image".length + "second image".length);
+
+    for (const [row, content] of [[image, "first image"], [duplicate, "first image"], [other, "second image"]] as const) {
+      const moved = await storage.getImageById(row.id);
+      assert.equal(moved?.provider, "cloudinary");
+      assert.equal(moved?.rawUrl, `https://cdn.example/${moved?.providerKey}`);
+      assert.equal(target.objects.get(moved!.providerKey)?.toString(), content);
+    }
+    assert.equal((await storage.getImageById(duplicate.id))?.providerKey, (await storage.getImageById(image.id))?.providerKey);
+
+    // The source stays unless asked otherwise
+    assert.ok(fs.existsSync(storedFile(image.providerKey)));
+  });
+
+  it("removes the source objects when asked to", async () => {
+    const image = await createLocalImage("to be moved");
+
+    assert.equal((await migrate({ deleteSource: true })).moved, 1);
+    assert.ok(!fs.existsSync(storedFile(image.providerKey)));
+  });
+
+  it("only lists what a dry run would move", async () => {
+    const image = await createLocalImage("dry run");
+
+    const summary = await migrate({ dryRun: true });
+    assert.equal(summary["would-move"], 1);
+    assert.equal(summary.moved, 0);
+    assert.equal((await storage.getImageById(image.id))?.provider, "local");
+    assert.equal(target.objects.size, 0);
+  });
+
+  it("keeps the row on the source when the copy reads back differently", async () => {
+    const image = await createLocalImage("altered on upload");
+    target.reencode = true;
+
+    const results: string[] = [];
+    const summary = await migrate({ onImage: (_image, result) => results.push(result.status) });
+    assert.equal(summary["checksum-mismatch"], 1);
+    assert.equal(summary.moved, 0);
+    assert.deepEqual(results, ["checksum-mismatch"]);
+
+    assert.deepEqual(await storage.getImageById(image.id), image);
+    assert.equal(target.objects.size, 0, "mismatched copy left behind");
+  });
+
+  it("picks up where an interrupted or limited run stopped", async () => {
+    const images = [
+      await createLocalImage("one"),
+      await createLocalImage("two"),
+      await createLocalImage("three"),
+    ];
+
+    assert.equal((await migrate({ limit: 1 })).moved, 1);
+
+    // A failing provider leaves the rest on the source
+    target.failUploads = true;
+    const failed = await migrate();
+    assert.equal(failed.failed, 2);
+    assert.equal(target.objects.size, 1);
+
+    target.failUploads = false;
+    assert.equal((await migrate()).moved, 2);
+    for (const image of images) {
+      assert.equal((await storage.getImageById(image.id))?.provider, "cloudinary");
+    }
+
+    // Nothing left to do
+    const done = await migrate();
+    assert.equal(done.moved + done.failed, 0);
+    assert.equal(target.objects.size, 3);
+  });
+});
@@ -0,0 +1,164 @@
+import { createHash, type Hash } from "crypto";
+import { Readable, Transform } from "stream";
+import { type Image } from "@shared/schema";
+import { storage } from "../storage.js";
+import { getProvider, type ProviderName } from "../providers/index.js";
+import { toWebStream, type StorageProvider } from "../providers/storage-provider.js";
+import { getFileExtension } from "../utils/validation.js";
+
+// Moves stored images from one provider to another, one image at a time:
+// copy the bytes, read the copy back and compare SHA-256 digests, then
+// repoint the rows in one transaction (every image sharing a deduplicated
+// object moves with it). Until then the rows still point at the source
+// object and afterwards at a verified copy, so every image stays readable
+// throughout. The source object is kept unless asked otherwise, which also
+// leaves its old links working. Rows that moved no longer match the source
+// provider, so an interrupted run picks up where it stopped when started again.
+
+const BATCH_SIZE = 100;
+
+export type ImageMigrationStatus =
+  | "moved"
+  | "would-move"        // dry run
+  | "missing"           // the row points at an object the source doesn't have
+  | "checksum-mismatch" // the copy read back differently; it was removed
+  | "changed"           // deleted or re-pointed during the copy; the copy was removed
+  | "failed";
+
+export interface ImageMigrationResult {
+  status: ImageMigrationStatus;
+  size?: number;
+  providerKey?: string; // key of the copy, once moved
+  error?: string;
+}
+
+export interface StorageMigrationOptions {
+  from: ProviderName;
+  to: ProviderName;
+  dryRun?: boolean;
+  deleteSource?: boolean; // remove each source object once its row points at the copy
+  limit?: number;         // stop after this many images
+  onImage?: (image: Image, result: ImageMigrationResult) => void;
+}
+
+export type StorageMigrationSummary = Record<ImageMigrationStatus, number> & { bytes: number };
+
+// Pass-through that feeds everything it sees into `hash`
+function hashing(hash: Hash): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+async function digest(stream: Readable): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of stream) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+async function migrateImage(
+  image: Image,
+  source: StorageProvider,
+  target: StorageProvider,
+  options: StorageMigrationOptions,
+): Promise<ImageMigrationResult> {
+  const stat = await source.stat(image.providerKey);
+  if (!stat) return { status: "missing" };
+  if (options.dryRun) return { status: "would-move", size: stat.size };
+
+  // Hashed on the way through, so the source is only read once
+  const hash = createHash("sha256");
+  const reading = await source.getStream(image.providerKey);
+  const body = reading.pipe(hashing(hash));
+  reading.on("error", (error) => body.destroy(error));
+
+  const copy = await target.uploadImage({
+    file: toWebStream(body),
+    filename: `${image.id}.${getFileExtension(image.mime)}`,
+    mime: image.mime,
+  });
+
+  try {
+    const expected = hash.digest("hex");
+    const actual = await digest(await target.getStream(copy.providerKey));
+    if (actual !== expected) {
+      await target.delete(copy.providerKey);
+      return { status: "checksum-mismatch", size: stat.size };
+    }
+
+    const moved = await storage.moveStoredObject(image, {
+      provider: options.to,
+      providerKey: copy.providerKey,
+      rawUrl: copy.rawUrl,
+    });
+    if (moved === 0) {
+      await target.delete(copy.providerKey);
+      return { status: "changed", size: stat.size };
+    }
+  } catch (error) {
+    // Don't leave an unreferenced copy behind
+    await target.delete(copy.providerKey).catch(() => {});
+    throw error;
+  }
+
+  if (options.deleteSource) {
+    await source.delete(image.providerKey).catch((error) => {
+      console.error(`Could not remove ${image.id} from ${options.from}:`, error);
+    });
+  }
+  return { status: "moved", size: stat.size, providerKey: copy.providerKey };
+}
+
+export async function migrateStorage(options: StorageMigrationOptions): Promise<StorageMigrationSummary> {
+  if (options.from === options.to) {
+    throw new Error("Source and target provider are the same");
+  }
+
+  const source = getProvider(options.from);
+  const target = getProvider(options.to);
+  const summary: StorageMigrationSummary = {
+    "moved": 0,
+    "would-move": 0,
+    "missing": 0,
+    "checksum-mismatch": 0,
+    "changed": 0,
+    "failed": 0,
+    bytes: 0,
+  };
+
+  let processed = 0;
+  let afterId: string | null = null;
+  while (options.limit === undefined || processed < options.limit) {
+    const batchSize = Math.min(BATCH_SIZE, (options.limit ?? Infinity) - processed);
+    const batch = await storage.getImagesByProvider(options.from, afterId, batchSize);
+    if (batch.length === 0) break;
+
+    for (const batchImage of batch) {
+      // Re-read, as it may share its object with an image moved earlier in the batch
+      const image = await storage.getImageById(batchImage.id);
+      if (!image || image.provider !== options.from || image.providerKey !== batchImage.providerKey) continue;
+
+      let result: ImageMigrationResult;
+      try {
+        result = await migrateImage(image, source, target, options);
+      } catch (error) {
+        result = { status: "failed", error: error instanceof Error ? error.message : String(error) };
+      }
+
+      summary[result.status]++;
+      if (result.status === "moved" || result.status === "would-move") {
+        summary.bytes += result.size ?? 0;
+      }
+      options.onImage?.(image, result);
+      processed++;
+    }
+    afterId = batch[batch.length - 1].id;
+  }
+
+  return summary;
+}
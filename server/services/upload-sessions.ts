@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { getUploadTempDir } from "../utils/temp-files.js";
+
+// Resumable uploads: the client opens a session, PATCHes the file in order
+// in chunks, then completes it. Chunks are appended to a part file in a temp
+// directory and the whole file only goes to the StorageProvider at the end.
+// Sessions live in memory (like the rate limits) so upload options such as
+// the password never touch disk; a restart loses them and clients start over.
+
+export const CHUNK_SIZE = 1024 * 1024; // what clients are told to send
+export const MAX_CHUNK_SIZE = 5 * 1024 * 1024; // largest single PATCH accepted
+export const UPLOAD_SESSION_TTL_MS = 60 * 60 * 1000; // since the last chunk
+
+// Upload options from the init request, applied when the upload completes
+export type UploadFields = Record<string, unknown>;
+
+export interface UploadSession {
+  id: string;
+  filename: string;
+  declaredType: string;
+  size: number;
+  offset: number; // bytes received so far
+  ownerId: string | null;
+  fields: UploadFields;
+  updatedAt: number;
+}
+
+export type AppendResult =
+  | { status: "ok"; offset: number }
+  | { status: "offset-mismatch"; offset: number }
+  | { status: "busy" }
+  | { status: "not-found" };
+
+const sessions = new Map<string, UploadSession>();
+// Sessions with a chunk being written; a second concurrent PATCH is refused
+const busy = new Set<string>();
+
+const partPath = (id: string) => path.join(getUploadTempDir(), `${id}.part`);
+
+export async function createUploadSession(
+  data: Pick<UploadSession, "filename" | "declaredType" | "size" | "ownerId" | "fields">,
+): Promise<UploadSession> {
+  const session: UploadSession = {
+    ...data,
+    id: randomBytes(16).toString("hex"),
+    offset: 0,
+    updatedAt: Date.now(),
+  };
+
+  await fs.promises.mkdir(getUploadTempDir(), { recursive: true });
+  await fs.promises.writeFile(partPath(session.id), "");
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getUploadSession(id: string): UploadSession | undefined {
+  return sessions.get(id);
+}
+
+// Fails the stream once more than `limit` bytes have passed
+function limitBytes(limit: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > limit) {
+        callback(new Error(`Chunk is larger than the ${limit} bytes left in this upload`));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+}
+
+// Appends one chunk that must start at the current offset. Whatever arrived
+// before a dropped connection is kept, so the client resumes from the new offset.
+export async function appendChunk(id: string, offset: number, chunk: NodeJS.ReadableStream): Promise<AppendResult> {
+  const session = sessions.get(id);
+  if (!session) return { status: "not-found" };
+  if (busy.has(id)) return { status: "busy" };
+  if (offset !== session.offset) return { status: "offset-mismatch", offset: session.offset };
+
+  busy.add(id);
+  try {
+    const limit = Math.min(MAX_CHUNK_SIZE, session.size - session.offset);
+    await pipeline(chunk, limitBytes(limit), fs.createWriteStream(partPath(id), { flags: "a" }));
+  } finally {
+    // The part file is the truth, even after a failed write
+    const stat = await fs.promises.stat(partPath(id)).catch(() => null);
+    if (stat) session.offset = stat.size;
+    session.updatedAt = Date.now();
+    busy.delete(id);
+  }
+  return { status: "ok", offset: session.offset };
+}
+
+// Ends the session and hands over the assembled file, which the caller
+// removes once it's stored; undefined until every byte is in
+export function takeCompletedUpload(id: string): { session: UploadSession; filePath: string } | undefined {
+  const session = sessions.get(id);
+  if (!session || busy.has(id) || session.offset !== session.size) return undefined;
+
+  sessions.delete(id);
+  return { session, filePath: partPath(id) };
+}
+
+export async function deleteUploadSession(id: string): Promise<boolean> {
+  if (!sessions.delete(id)) return false;
+  await fs.promises.rm(partPath(id), { force: true });
+  return true;
+}
+
+// Drops sessions idle past the TTL, plus any temp file left by an earlier
+// process or a crashed request (spooled uploads live for seconds)
+export async function deleteStaleUploadSessions(now = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const session of Array.from(sessions.values())) {
+    if (!busy.has(session.id) && now - session.updatedAt > UPLOAD_SESSION_TTL_MS) {
+      await deleteUploadSession(session.id);
+      removed++;
+    }
+  }
+
+  const entries = await fs.promises.readdir(getUploadTempDir()).catch(() => [] as string[]);
+  for (const entry of entries) {
+    if (sessions.has(entry.replace(/\.part$/, ""))) continue;
+
+    const file = path.join(getUploadTempDir(), entry);
+    const stat = await fs.promises.stat(file).catch(() => null);
+    if (stat && now - stat.mtimeMs > UPLOAD_SESSION_TTL_MS) {
+      await fs.promises.rm(file, { force: true });
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+export function startUploadSessionSweeper(intervalMs = 10 * 60 * 1000): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    deleteStaleUploadSessions()
+      .then((count) => {
+        if (count > 0) console.log(`Removed ${count} abandoned upload(s)`);
+      })
+      .catch((error) => console.error("Upload session sweeper error:", error));
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+}
@@ -1,17 +1,67 @@
-import { type Image, type InsertImage } from "@shared/schema";
+import { type Image, type InsertImage, type ImageBlob, type InsertImageBlob, type Album, type InsertAlbum, type User, type InsertUser, type ApiKey, type InsertApiKey, type OwnedImageSort } from "@shared/schema";
 import { generateImageId, generateDeleteToken } from "./utils/id-generator.js";
+import pg from "pg";
+import { SqliteStorage } from "./stores/sqlite-storage.js";
+import { PostgresStorage } from "./stores/postgres-storage.js";
 
 export interface IStorage {
   createImage(image: Omit<InsertImage, "id" | "deleteToken">): Promise<Image>;
   getImageById(id: string): Promise<Image | undefined>;
+  updateImage(id: string, changes: Partial<Omit<InsertImage, "id" | "deleteToken">>): Promise<Image | undefined>;
+  // Counts one view of a view-limited image; undefined once its views are used up
+  recordView(id: string): Promise<Image | undefined>;
+  // Oldest-expired first, at most `limit` per call
+  getExpiredImages(now: Date, limit: number): Promise<Image[]>;
+  // Images stored with `provider`, ordered by id; pass the last id seen for the next page
+  getImagesByProvider(provider: Image["provider"], afterId: string | null, limit: number): Promise<Image[]>;
+  // Points every image (and blob) stored at `from` at a copy of the object, in
+  // one transaction; the number of images moved, 0 when none point there any more
+  moveStoredObject(from: Pick<Image, "provider" | "providerKey">, to: Pick<Image, "provider" | "providerKey" | "rawUrl">): Promise<number>;
+  // Takes another reference to the blob with this content; undefined when there
+  // is none or it has no references left (its stored copies are being deleted)
+  acquireBlob(sha256: string): Promise<ImageBlob | undefined>;
+  // Records a newly stored blob holding one reference; undefined when one with the same hash is already there
+  createBlob(blob: Omit<InsertImageBlob, "refCount">): Promise<ImageBlob | undefined>;
+  // Drops one reference; returns the blob when that was the last. Its row stays,
+  // unreferenced, until deleteBlob once its stored copies are gone.
+  releaseBlob(sha256: string): Promise<ImageBlob | undefined>;
+  getBlob(sha256: string): Promise<ImageBlob | undefined>;
+  // Oldest first, at most `limit`
+  getUnreferencedBlobs(limit: number): Promise<ImageBlob[]>;
+  // Removes a blob with no references left; false when there is none
+  deleteBlob(sha256: string): Promise<boolean>;
   deleteImage(id: string, deleteToken: string): Promise<boolean>;
+  createAlbum(album: Omit<InsertAlbum, "id" | "deleteToken">): Promise<Album>;
+  getAlbumById(id: string): Promise<Album | undefined>;
+  getImagesByAlbumId(albumId: string): Promise<Image[]>;
+  deleteAlbum(id: string, deleteToken: string): Promise<boolean>;
+  createUser(user: Omit<InsertUser, "id">): Promise<User>;
+  getUserById(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  // One page at a time, newest first unless another order is asked for
+  getImagesByOwnerId(ownerId: string, page: { limit: number; offset: number }, sort?: OwnedImageSort): Promise<{ images: Image[]; total: number }>;
+  createApiKey(apiKey: Omit<InsertApiKey, "id">): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  // Oldest first
+  getApiKeysByUserId(userId: string): Promise<ApiKey[]>;
+  touchApiKey(id: string, usedAt: Date): Promise<void>;
+  // Only the owning user can revoke a key; false when it isn't theirs or is gone
+  deleteApiKey(id: string, userId: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private images: Map<string, Image>;
+  private albums: Map<string, Album>;
+  private users: Map<string, User>;
+  private apiKeys: Map<string, ApiKey>;
+  private blobs: Map<string, ImageBlob>;
 
   constructor() {
     this.images = new Map();
+    this.albums = new Map();
+    this.users = new Map();
+    this.apiKeys = new Map();
+    this.blobs = new Map();
   }
 
   async createImage(imageData: Omit<InsertImage, "id" | "deleteToken">): Promise<Image> {
@@ -25,6 +75,16 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       width: imageData.width ?? null,
       height: imageData.height ?? null,
+      albumId: imageData.albumId ?? null,
+      expiresAt: imageData.expiresAt ?? null,
+      maxViews: imageData.maxViews ?? null,
+      views: imageData.views ?? 0,
+      passwordHash: imageData.passwordHash ?? null,
+      ownerId: imageData.ownerId ?? null,
+      replicaProvider: imageData.replicaProvider ?? null,
+      replicaKey: imageData.replicaKey ?? null,
+      replicaUrl: imageData.replicaUrl ?? null,
+      sha256: imageData.sha256 ?? null,
     };
     
     this.images.set(id, image);
@@ -35,6 +95,122 @@ export class MemStorage implements IStorage {
     return this.images.get(id);
   }
 
+  async updateImage(id: string, changes: Partial<Omit<InsertImage, "id" | "deleteToken">>): Promise<Image | undefined> {
+    const image = this.images.get(id);
+    if (!image) {
+      return undefined;
+    }
+
+    const updated: Image = { ...image, ...changes };
+    this.images.set(id, updated);
+    return updated;
+  }
+
+  async recordView(id: string): Promise<Image | undefined> {
+    const image = this.images.get(id);
+    if (!image || (image.maxViews !== null && image.views >= image.maxViews)) {
+      return undefined;
+    }
+
+    image.views++;
+    return image;
+  }
+
+  async getExpiredImages(now: Date, limit: number): Promise<Image[]> {
+    return Array.from(this.images.values())
+      .filter((image) => image.expiresAt && image.expiresAt <= now)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getImagesByProvider(provider: Image["provider"], afterId: string | null, limit: number): Promise<Image[]> {
+    return Array.from(this.images.values())
+      .filter((image) => image.provider === provider && (afterId === null || image.id > afterId))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  async moveStoredObject(
+    from: Pick<Image, "provider" | "providerKey">,
+    to: Pick<Image, "provider" | "providerKey" | "rawUrl">,
+  ): Promise<number> {
+    const isAtSource = (record: Pick<Image, "provider" | "providerKey">) =>
+      record.provider === from.provider && record.providerKey === from.providerKey;
+
+    let moved = 0;
+    for (const image of Array.from(this.images.values())) {
+      if (isAtSource(image)) {
+        this.images.set(image.id, { ...image, ...to });
+        moved++;
+      }
+    }
+    for (const blob of Array.from(this.blobs.values())) {
+      if (isAtSource(blob)) {
+        this.blobs.set(blob.sha256, { ...blob, ...to });
+      }
+    }
+    return moved;
+  }
+
+  async acquireBlob(sha256: string): Promise<ImageBlob | undefined> {
+    const blob = this.blobs.get(sha256);
+    if (!blob || blob.refCount === 0) {
+      return undefined;
+    }
+
+    blob.refCount++;
+    return blob;
+  }
+
+  async createBlob(blobData: Omit<InsertImageBlob, "refCount">): Promise<ImageBlob | undefined> {
+    if (this.blobs.has(blobData.sha256)) {
+      return undefined;
+    }
+
+    const blob: ImageBlob = {
+      ...blobData,
+      replicaProvider: blobData.replicaProvider ?? null,
+      replicaKey: blobData.replicaKey ?? null,
+      replicaUrl: blobData.replicaUrl ?? null,
+      width: blobData.width ?? null,
+      height: blobData.height ?? null,
+      refCount: 1,
+      createdAt: new Date(),
+    };
+    this.blobs.set(blob.sha256, blob);
+    return blob;
+  }
+
+  async releaseBlob(sha256: string): Promise<ImageBlob | undefined> {
+    const blob = this.blobs.get(sha256);
+    if (!blob || blob.refCount === 0) {
+      return undefined;
+    }
+
+    blob.refCount--;
+    return blob.refCount === 0 ? blob : undefined;
+  }
+
+  async getBlob(sha256: string): Promise<ImageBlob | undefined> {
+    return this.blobs.get(sha256);
+  }
+
+  async getUnreferencedBlobs(limit: number): Promise<ImageBlob[]> {
+    return Array.from(this.blobs.values())
+      .filter((blob) => blob.refCount === 0)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async deleteBlob(sha256: string): Promise<boolean> {
+    const blob = this.blobs.get(sha256);
+    if (!blob || blob.refCount > 0) {
+      return false;
+    }
+
+    return this.blobs.delete(sha256);
+  }
+
   async deleteImage(id: string, deleteToken: string): Promise<boolean> {
     const image = this.images.get(id);
     if (!image || image.deleteToken !== deleteToken) {
@@ -43,6 +219,138 @@ export class MemStorage implements IStorage {
     
     return this.images.delete(id);
   }
+
+  async createAlbum(albumData: Omit<InsertAlbum, "id" | "deleteToken">): Promise<Album> {
+    const album: Album = {
+      id: generateImageId(),
+      title: albumData.title ?? null,
+      deleteToken: generateDeleteToken(),
+      createdAt: new Date(),
+    };
+
+    this.albums.set(album.id, album);
+    return album;
+  }
+
+  async getAlbumById(id: string): Promise<Album | undefined> {
+    return this.albums.get(id);
+  }
+
+  async getImagesByAlbumId(albumId: string): Promise<Image[]> {
+    return Array.from(this.images.values())
+      .filter((image) => image.albumId === albumId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async deleteAlbum(id: string, deleteToken: string): Promise<boolean> {
+    const album = this.albums.get(id);
+    if (!album || album.deleteToken !== deleteToken) {
+      return false;
+    }
+
+    return this.albums.delete(id);
+  }
+
+  async createUser(userData: Omit<InsertUser, "id">): Promise<User> {
+    if (await this.getUserByUsername(userData.username)) {
+      throw new Error(`Username ${userData.username} is taken`);
+    }
+
+    const user: User = {
+      ...userData,
+      id: generateImageId(),
+      createdAt: new Date(),
+    };
+
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async getImagesByOwnerId(ownerId: string, page: { limit: number; offset: number }, sort: OwnedImageSort = "newest"): Promise<{ images: Image[]; total: number }> {
+    const owned = Array.from(this.images.values())
+      .filter((image) => image.ownerId === ownerId)
+      .sort((a, b) => {
+        const created = (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+        switch (sort) {
+          case "oldest": return created;
+          case "largest": return b.size - a.size;
+          case "smallest": return a.size - b.size;
+          default: return -created;
+        }
+      });
+
+    return {
+      images: owned.slice(page.offset, page.offset + page.limit),
+      total: owned.length,
+    };
+  }
+
+  async createApiKey(apiKeyData: Omit<InsertApiKey, "id">): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      ...apiKeyData,
+      id: generateImageId(),
+      lastUsedAt: apiKeyData.lastUsedAt ?? null,
+      createdAt: new Date(),
+    };
+
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find((apiKey) => apiKey.keyHash === keyHash);
+  }
+
+  async getApiKeysByUserId(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((apiKey) => apiKey.userId === userId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      this.apiKeys.set(id, { ...apiKey, lastUsedAt: usedAt });
+    }
+  }
+
+  async deleteApiKey(id: string, userId: string): Promise<boolean> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey || apiKey.userId !== userId) {
+      return false;
+    }
+
+    return this.apiKeys.delete(id);
+  }
+}
+
+const databaseUrl = process.env.DATABASE_URL;
+
+// The process-wide Postgres pool when DATABASE_URL points at Postgres; the
+// session store shares it
+export const pgPool = databaseUrl && /^postgres(ql)?:/.test(databaseUrl)
+  ? new pg.Pool({ connectionString: databaseUrl })
+  : null;
+
+// Pick the metadata store from DATABASE_URL; without one, records live in memory
+function createStorage(): IStorage {
+  if (databaseUrl && /^(file|libsql):/.test(databaseUrl)) {
+    return new SqliteStorage(databaseUrl);
+  }
+
+  if (pgPool) {
+    return new PostgresStorage(pgPool);
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
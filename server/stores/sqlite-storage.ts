@@ -0,0 +1,342 @@
+import fs from "fs";
+import path from "path";
+import { createClient, type Client } from "@libsql/client";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import { and, asc, count, desc, eq, gt, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { images, albums, users, apiKeys, blobs, type Image, type InsertImage, type ImageBlob, type InsertImageBlob, type Album, type InsertAlbum, type User, type InsertUser, type ApiKey, type InsertApiKey, type OwnedImageSort } from "@shared/schema";
+import type { IStorage } from "../storage.js";
+import { generateImageId, generateDeleteToken } from "../utils/id-generator.js";
+
+// ORDER BY for each listing sort; ties fall back to id so pages stay stable
+const OWNED_IMAGE_ORDER = {
+  newest: desc(images.createdAt),
+  oldest: asc(images.createdAt),
+  largest: desc(images.size),
+  smallest: asc(images.size),
+} satisfies Record<OwnedImageSort, unknown>;
+
+export class SqliteStorage implements IStorage {
+  private client: Client;
+  private db: LibSQLDatabase;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    // libSQL won't create missing parent directories for file: databases
+    if (url.startsWith("file:")) {
+      fs.mkdirSync(path.dirname(url.slice("file:".length)), { recursive: true });
+    }
+
+    this.client = createClient({ url });
+    this.db = drizzle(this.client);
+    this.ready = migrate(this.db, {
+      migrationsFolder: path.join(process.cwd(), "migrations", "sqlite"),
+    });
+  }
+
+  async createImage(imageData: Omit<InsertImage, "id" | "deleteToken">): Promise<Image> {
+    await this.ready;
+
+    const [image] = await this.db
+      .insert(images)
+      .values({
+        ...imageData,
+        id: generateImageId(),
+        deleteToken: generateDeleteToken(),
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return image;
+  }
+
+  async getImageById(id: string): Promise<Image | undefined> {
+    await this.ready;
+
+    const [image] = await this.db.select().from(images).where(eq(images.id, id));
+    return image;
+  }
+
+  async updateImage(id: string, changes: Partial<Omit<InsertImage, "id" | "deleteToken">>): Promise<Image | undefined> {
+    await this.ready;
+
+    const [image] = await this.db
+      .update(images)
+      .set(changes)
+      .where(eq(images.id, id))
+      .returning();
+
+    return image;
+  }
+
+  // Single conditional UPDATE so concurrent viewers can't both take the last view
+  async recordView(id: string): Promise<Image | undefined> {
+    await this.ready;
+
+    const [image] = await this.db
+      .update(images)
+      .set({ views: sql`${images.views} + 1` })
+      .where(and(eq(images.id, id), or(isNull(images.maxViews), lt(images.views, images.maxViews))))
+      .returning();
+
+    return image;
+  }
+
+  async getExpiredImages(now: Date, limit: number): Promise<Image[]> {
+    await this.ready;
+
+    return this.db
+      .select()
+      .from(images)
+      .where(lte(images.expiresAt, now))
+      .orderBy(asc(images.expiresAt))
+      .limit(limit);
+  }
+
+  async getImagesByProvider(provider: Image["provider"], afterId: string | null, limit: number): Promise<Image[]> {
+    await this.ready;
+
+    return this.db
+      .select()
+      .from(images)
+      .where(and(eq(images.provider, provider), afterId === null ? undefined : gt(images.id, afterId)))
+      .orderBy(asc(images.id))
+      .limit(limit);
+  }
+
+  async moveStoredObject(
+    from: Pick<Image, "provider" | "providerKey">,
+    to: Pick<Image, "provider" | "providerKey" | "rawUrl">,
+  ): Promise<number> {
+    await this.ready;
+
+    return this.db.transaction(async (tx) => {
+      const moved = await tx
+        .update(images)
+        .set(to)
+        .where(and(eq(images.provider, from.provider), eq(images.providerKey, from.providerKey)))
+        .returning({ id: images.id });
+
+      await tx
+        .update(blobs)
+        .set(to)
+        .where(and(eq(blobs.provider, from.provider), eq(blobs.providerKey, from.providerKey)));
+
+      return moved.length;
+    });
+  }
+
+  async acquireBlob(sha256: string): Promise<ImageBlob | undefined> {
+    await this.ready;
+
+    const [blob] = await this.db
+      .update(blobs)
+      .set({ refCount: sql`${blobs.refCount} + 1` })
+      .where(and(eq(blobs.sha256, sha256), gt(blobs.refCount, 0)))
+      .returning();
+
+    return blob;
+  }
+
+  async createBlob(blobData: Omit<InsertImageBlob, "refCount">): Promise<ImageBlob | undefined> {
+    await this.ready;
+
+    const [blob] = await this.db
+      .insert(blobs)
+      .values({ ...blobData, refCount: 1, createdAt: new Date() })
+      .onConflictDoNothing()
+      .returning();
+
+    return blob;
+  }
+
+  async releaseBlob(sha256: string): Promise<ImageBlob | undefined> {
+    await this.ready;
+
+    const [released] = await this.db
+      .update(blobs)
+      .set({ refCount: sql`${blobs.refCount} - 1` })
+      .where(and(eq(blobs.sha256, sha256), gt(blobs.refCount, 0)))
+      .returning();
+
+    return released?.refCount === 0 ? released : undefined;
+  }
+
+  async getBlob(sha256: string): Promise<ImageBlob | undefined> {
+    await this.ready;
+
+    const [blob] = await this.db.select().from(blobs).where(eq(blobs.sha256, sha256));
+    return blob;
+  }
+
+  async getUnreferencedBlobs(limit: number): Promise<ImageBlob[]> {
+    await this.ready;
+
+    return this.db
+      .select()
+      .from(blobs)
+      .where(eq(blobs.refCount, 0))
+      .orderBy(asc(blobs.createdAt))
+      .limit(limit);
+  }
+
+  async deleteBlob(sha256: string): Promise<boolean> {
+    await this.ready;
+
+    const deleted = await this.db
+      .delete(blobs)
+      .where(and(eq(blobs.sha256, sha256), eq(blobs.refCount, 0)))
+      .returning({ sha256: blobs.sha256 });
+
+    return deleted.length > 0;
+  }
+
+  async deleteImage(id: string, deleteToken: string): Promise<boolean> {
+    await this.ready;
+
+    const deleted = await this.db
+      .delete(images)
+      .where(and(eq(images.id, id), eq(images.deleteToken, deleteToken)))
+      .returning({ id: images.id });
+
+    return deleted.length > 0;
+  }
+
+  async createAlbum(albumData: Omit<InsertAlbum, "id" | "deleteToken">): Promise<Album> {
+    await this.ready;
+
+    const [album] = await this.db
+      .insert(albums)
+      .values({
+        ...albumData,
+        id: generateImageId(),
+        deleteToken: generateDeleteToken(),
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return album;
+  }
+
+  async getAlbumById(id: string): Promise<Album | undefined> {
+    await this.ready;
+
+    const [album] = await this.db.select().from(albums).where(eq(albums.id, id));
+    return album;
+  }
+
+  async getImagesByAlbumId(albumId: string): Promise<Image[]> {
+    await this.ready;
+
+    return this.db
+      .select()
+      .from(images)
+      .where(eq(images.albumId, albumId))
+      .orderBy(asc(images.createdAt));
+  }
+
+  async deleteAlbum(id: string, deleteToken: string): Promise<boolean> {
+    await this.ready;
+
+    const deleted = await this.db
+      .delete(albums)
+      .where(and(eq(albums.id, id), eq(albums.deleteToken, deleteToken)))
+      .returning({ id: albums.id });
+
+    return deleted.length > 0;
+  }
+
+  async createUser(userData: Omit<InsertUser, "id">): Promise<User> {
+    await this.ready;
+
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        ...userData,
+        id: generateImageId(),
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    await this.ready;
+
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ready;
+
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getImagesByOwnerId(ownerId: string, page: { limit: number; offset: number }, sort: OwnedImageSort = "newest"): Promise<{ images: Image[]; total: number }> {
+    await this.ready;
+
+    const owned = await this.db
+      .select()
+      .from(images)
+      .where(eq(images.ownerId, ownerId))
+      .orderBy(OWNED_IMAGE_ORDER[sort], asc(images.id))
+      .limit(page.limit)
+      .offset(page.offset);
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(images)
+      .where(eq(images.ownerId, ownerId));
+
+    return { images: owned, total };
+  }
+
+  async createApiKey(apiKeyData: Omit<InsertApiKey, "id">): Promise<ApiKey> {
+    await this.ready;
+
+    const [apiKey] = await this.db
+      .insert(apiKeys)
+      .values({
+        ...apiKeyData,
+        id: generateImageId(),
+        createdAt: new Date(),
+      })
+      .returning();
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    await this.ready;
+
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async getApiKeysByUserId(userId: string): Promise<ApiKey[]> {
+    await this.ready;
+
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(asc(apiKeys.createdAt), asc(apiKeys.id));
+  }
+
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    await this.ready;
+
+    await this.db.update(apiKeys).set({ lastUsedAt: usedAt }).where(eq(apiKeys.id, id));
+  }
+
+  async deleteApiKey(id: string, userId: string): Promise<boolean> {
+    await this.ready;
+
+    const deleted = await this.db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+      .returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,30 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Without SESSION_SECRET tokens only survive until the process restarts, which
+// is fine for links that live a few minutes
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+// "view" lets a page that already passed every check load the bytes without
+// using up another view; "unlock" proves the image's password was entered
+export type AccessScope = "view" | "unlock";
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// Short-lived token for one image, as "<expiry ms>.<signature>"
+export function createImageAccessToken(imageId: string, ttlMs: number, scope: AccessScope = "view"): string {
+  const expires = Date.now() + ttlMs;
+  return `${expires}.${sign(`${scope}.${imageId}.${expires}`)}`;
+}
+
+export function verifyImageAccessToken(imageId: string, token: string, scope: AccessScope = "view"): boolean {
+  const [expires, signature] = token.split(".");
+  if (!expires || !signature || Number(expires) < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(`${scope}.${imageId}.${expires}`));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,29 @@
+import { createHash, randomBytes } from "crypto";
+import { apiKeyScopes, type ApiKeyScope } from "@shared/schema";
+
+// Marks a string as one of our keys, e.g. in secret scanners and logs
+const KEY_PREFIX = "pl_";
+// How much of the key is stored in the clear so users can tell keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+// Keys carry 256 random bits, so a fast unsalted hash is enough to store them;
+// scrypt (as for passwords) would only slow down every API request
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+// Scopes are stored comma-separated so the column is plain text in both databases
+export function serializeScopes(scopes: ApiKeyScope[]): string {
+  return scopes.join(",");
+}
+
+export function parseScopes(stored: string): ApiKeyScope[] {
+  return stored
+    .split(",")
+    .filter((scope): scope is ApiKeyScope => (apiKeyScopes as readonly string[]).includes(scope));
+}
@@ -0,0 +1,72 @@
+import { Transform } from "stream";
+
+// Dimensions are read from the start of an upload; after metadata stripping
+// the header that holds them comes well within this
+export const DIMENSION_BYTES = 64 * 1024;
+
+// Pass-through that keeps a copy of the first `limit` bytes
+export function captureHead(limit = DIMENSION_BYTES): { stream: Transform; head: () => Buffer } {
+  let head = Buffer.alloc(0);
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (head.length < limit) {
+        head = Buffer.concat([head, chunk.subarray(0, limit - head.length)]);
+      }
+      callback(null, chunk);
+    },
+  });
+  return { stream, head: () => head };
+}
+
+export function getImageDimensions(buffer: Buffer, mime: string): { width: number; height: number } | null {
+  // Basic dimension detection for common formats
+  try {
+    if (mime === "image/png") {
+      return getPngDimensions(buffer);
+    } else if (mime === "image/jpeg" || mime === "image/jpg") {
+      return getJpegDimensions(buffer);
+    }
+  } catch (error) {
+    console.error("Error getting image dimensions:", error);
+  }
+  return null;
+}
+
+function getPngDimensions(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 24) return null;
+  
+  // PNG signature check
+  if (buffer.readUInt32BE(0) !== 0x89504e47 || buffer.readUInt32BE(4) !== 0x0d0a1a0a) {
+    return null;
+  }
+  
+  const width = buffer.readUInt32BE(16);
+  const height = buffer.readUInt32BE(20);
+  
+  return { width, height };
+}
+
+function getJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+  let offset = 2; // Skip initial 0xFFD8
+  
+  // Stops where the captured head ends
+  while (offset + 9 <= buffer.length) {
+    if (buffer[offset] !== 0xFF) break;
+    
+    const marker = buffer[offset + 1];
+    
+    // SOF (Start of Frame) markers
+    if ((marker >= 0xC0 && marker <= 0xC3) || (marker >= 0xC5 && marker <= 0xC7) || 
+        (marker >= 0xC9 && marker <= 0xCB) || (marker >= 0xCD && marker <= 0xCF)) {
+      const height = buffer.readUInt16BE(offset + 5);
+      const width = buffer.readUInt16BE(offset + 7);
+      return { width, height };
+    }
+    
+    // Skip this segment
+    const segmentLength = buffer.readUInt16BE(offset + 2);
+    offset += segmentLength + 2;
+  }
+  
+  return null;
+}
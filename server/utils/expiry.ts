@@ -0,0 +1,60 @@
+import { expiryOptions, type ExpiryOption } from "@shared/schema";
+
+const HOUR = 60 * 60 * 1000;
+
+// Lifetime of each option in ms; null never expires
+const EXPIRY_DURATIONS: Record<ExpiryOption, number | null> = {
+  "1h": HOUR,
+  "1d": 24 * HOUR,
+  "1w": 7 * 24 * HOUR,
+  never: null,
+};
+
+export interface ExpiryPolicy {
+  defaultExpiry: ExpiryOption; // used when an upload doesn't ask for one
+  maxExpiry: ExpiryOption;     // longer requests are capped to this
+}
+
+function parseExpiryOption(value: unknown): ExpiryOption | null {
+  return expiryOptions.includes(value as ExpiryOption) ? (value as ExpiryOption) : null;
+}
+
+function isLonger(a: ExpiryOption, b: ExpiryOption): boolean {
+  return (EXPIRY_DURATIONS[a] ?? Infinity) > (EXPIRY_DURATIONS[b] ?? Infinity);
+}
+
+// DEFAULT_EXPIRY and MAX_EXPIRY take the same values as the upload parameter
+export function getExpiryPolicy(): ExpiryPolicy {
+  const maxExpiry = parseExpiryOption(process.env.MAX_EXPIRY) ?? "never";
+  const defaultExpiry = parseExpiryOption(process.env.DEFAULT_EXPIRY) ?? maxExpiry;
+
+  return {
+    maxExpiry,
+    defaultExpiry: isLonger(defaultExpiry, maxExpiry) ? maxExpiry : defaultExpiry,
+  };
+}
+
+// Turns an `expiresIn` request value into an expiry date, within the policy.
+// Throws on unknown values; missing ones get the server default.
+export function resolveExpiresAt(value: unknown, policy: ExpiryPolicy, now = new Date()): Date | null {
+  let option: ExpiryOption = policy.defaultExpiry;
+
+  if (value !== undefined && value !== "") {
+    const parsed = parseExpiryOption(value);
+    if (!parsed) {
+      throw new Error(`Expiry must be one of ${expiryOptions.join(", ")}`);
+    }
+    option = parsed;
+  }
+
+  if (isLonger(option, policy.maxExpiry)) {
+    option = policy.maxExpiry;
+  }
+
+  const duration = EXPIRY_DURATIONS[option];
+  return duration === null ? null : new Date(now.getTime() + duration);
+}
+
+export function isExpired(image: { expiresAt: Date | null }, now = new Date()): boolean {
+  return image.expiresAt !== null && image.expiresAt <= now;
+}
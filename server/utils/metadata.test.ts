@@ -0,0 +1,257 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { prepareStrippedImage, getMetadataOptions, type MetadataOptions } from "./metadata.js";
+
+const SECRET = "secret-location-47.6062N";
+
+let tempDir: string;
+let fixtureCount = 0;
+
+before(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "metadata-test-"));
+});
+
+after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+// Strips `input` and checks the reported size and hash against the bytes it streams
+async function strip(input: Buffer, mime: string, options: MetadataOptions = {}): Promise<Buffer> {
+  const filePath = path.join(tempDir, `fixture-${fixtureCount++}`);
+  fs.writeFileSync(filePath, input);
+
+  const image = await prepareStrippedImage(filePath, mime, options);
+  const output = Buffer.concat(await image.open().toArray());
+  assert.equal(image.size, output.length);
+  assert.equal(image.sha256, createHash("sha256").update(output).digest("hex"));
+  return output;
+}
+
+// Same pixels, decoded
+async function assertSamePixels(actual: Buffer, expected: Buffer) {
+  const [a, b] = await Promise.all([sharp(actual).raw().toBuffer(), sharp(expected).raw().toBuffer()]);
+  assert.ok(a.equals(b), "decoded pixels differ");
+}
+
+const photo = () => sharp({ create: { width: 16, height: 8, channels: 3, background: { r: 200, g: 40, b: 90 } } });
+
+// --- Fixture builders -------------------------------------------------------
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+// Right after SOI
+const withJpegSegment = (jpeg: Buffer, segment: Buffer) =>
+  Buffer.concat([jpeg.subarray(0, 2), segment, jpeg.subarray(2)]);
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const table = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+  });
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  let crc = 0xffffffff;
+  for (const byte of body) crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+
+  const chunk = Buffer.alloc(body.length + 8);
+  chunk.writeUInt32BE(data.length, 0);
+  body.copy(chunk, 4);
+  chunk.writeUInt32BE((crc ^ 0xffffffff) >>> 0, body.length + 4);
+  return chunk;
+}
+
+// Right after IHDR (8-byte signature, 25-byte chunk)
+const withPngChunks = (png: Buffer, ...chunks: Buffer[]) =>
+  Buffer.concat([png.subarray(0, 33), ...chunks, png.subarray(33)]);
+
+// Right after the header and global colour table
+function withGifExtension(gif: Buffer, extension: Buffer): Buffer {
+  const packed = gif[10];
+  const end = 13 + (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+  return Buffer.concat([gif.subarray(0, end), extension, gif.subarray(end)]);
+}
+
+function gifComment(text: string): Buffer {
+  const data = Buffer.from(text, "latin1");
+  return Buffer.concat([Buffer.from([0x21, 0xfe, data.length]), data, Buffer.from([0])]);
+}
+
+// --- Tests ------------------------------------------------------------------
+
+describe("getMetadataOptions", () => {
+  it("keeps the orientation by default", () => {
+    const saved = process.env.METADATA_KEEP;
+    try {
+      delete process.env.METADATA_KEEP;
+      assert.deepEqual(getMetadataOptions(), { keepColorProfile: false, keepOrientation: true });
+      process.env.METADATA_KEEP = "";
+      assert.deepEqual(getMetadataOptions(), { keepColorProfile: false, keepOrientation: false });
+      process.env.METADATA_KEEP = "icc, Orientation";
+      assert.deepEqual(getMetadataOptions(), { keepColorProfile: true, keepOrientation: true });
+    } finally {
+      if (saved === undefined) delete process.env.METADATA_KEEP;
+      else process.env.METADATA_KEEP = saved;
+    }
+  });
+});
+
+describe("JPEG", () => {
+  const tagged = async () => withJpegSegment(
+    await photo()
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .withExifMerge({ IFD0: { Artist: SECRET }, IFD3: { GPSLatitudeRef: "N" } })
+      .withXmp(`<x:xmpmeta xmlns:x="adobe:ns:meta/">${SECRET}</x:xmpmeta>`)
+      .toBuffer(),
+    jpegSegment(0xfe, Buffer.from(SECRET, "latin1")),
+  );
+
+  it("drops EXIF, XMP and comments without touching the image data", async () => {
+    const input = await tagged();
+    const output = await strip(input, "image/jpeg");
+
+    assert.ok(!output.includes(SECRET));
+    const metadata = await sharp(output).metadata();
+    assert.equal(metadata.exif, undefined);
+    assert.equal(metadata.xmp, undefined);
+    assert.equal(metadata.orientation, undefined);
+    await assertSamePixels(output, input);
+  });
+
+  it("keeps only the orientation when asked to", async () => {
+    const output = await strip(await tagged(), "image/jpeg", { keepOrientation: true });
+
+    assert.ok(!output.includes(SECRET));
+    assert.equal((await sharp(output).metadata()).orientation, 6);
+  });
+
+  it("keeps the ICC profile only when asked to", async () => {
+    const input = await photo().jpeg().withIccProfile("p3").toBuffer();
+
+    assert.equal((await sharp(await strip(input, "image/jpeg")).metadata()).icc, undefined);
+    assert.ok((await sharp(await strip(input, "image/jpeg", { keepColorProfile: true })).metadata()).icc);
+  });
+
+  it("drops data after the end of the image", async () => {
+    const input = await photo().jpeg().toBuffer();
+    const output = await strip(Buffer.concat([input, Buffer.from(SECRET, "latin1")]), "image/jpeg");
+
+    assert.ok(!output.includes(SECRET));
+    await assertSamePixels(output, input);
+  });
+
+  it("rejects truncated files", async () => {
+    const input = await photo().jpeg().toBuffer();
+    await assert.rejects(strip(input.subarray(0, input.length - 40), "image/jpeg"), /corrupt or truncated/);
+    await assert.rejects(strip(Buffer.from("not a jpeg"), "image/jpeg"), /corrupt or truncated/);
+  });
+});
+
+describe("PNG", () => {
+  it("drops text and EXIF chunks without touching the image data", async () => {
+    const png = await photo().png().toBuffer();
+    const input = withPngChunks(
+      png,
+      pngChunk("tEXt", Buffer.from(`Comment\0${SECRET}`, "latin1")),
+      pngChunk("iTXt", Buffer.from(`XML:com.adobe.xmp\0\0\0\0\0${SECRET}`, "latin1")),
+      pngChunk("eXIf", Buffer.from(SECRET, "latin1")),
+    );
+    const output = await strip(input, "image/png");
+
+    assert.ok(!output.includes(SECRET));
+    await assertSamePixels(output, png);
+  });
+
+  it("keeps the chunks of animated PNGs", async () => {
+    const actl = Buffer.alloc(8);
+    actl.writeUInt32BE(1, 0); // one frame, played once
+    const input = withPngChunks(await photo().png().toBuffer(), pngChunk("acTL", actl));
+    const output = await strip(input, "image/png");
+
+    assert.ok(output.equals(input));
+  });
+
+  it("keeps the ICC profile only when asked to", async () => {
+    const input = await photo().png().withIccProfile("p3").toBuffer();
+
+    assert.ok(!(await strip(input, "image/png")).includes("iCCP"));
+    assert.ok((await strip(input, "image/png", { keepColorProfile: true })).includes("iCCP"));
+  });
+
+  it("rejects truncated files", async () => {
+    const input = await photo().png().toBuffer();
+    await assert.rejects(strip(input.subarray(0, input.length - 8), "image/png"), /corrupt or truncated/);
+  });
+});
+
+describe("WebP", () => {
+  // A dropped profile changes how the pixels decode, so only some have one
+  const tagged = (icc: boolean) => (icc ? photo().withIccProfile("p3") : photo())
+    .webp({ lossless: true })
+    .withExifMerge({ IFD0: { Artist: SECRET } })
+    .withXmp(`<x:xmpmeta xmlns:x="adobe:ns:meta/">${SECRET}</x:xmpmeta>`)
+    .toBuffer();
+
+  it("drops EXIF and XMP chunks and fixes the header to match", async () => {
+    const input = await tagged(false);
+    const output = await strip(input, "image/webp");
+
+    assert.ok(!output.includes(SECRET));
+    assert.equal(output.readUInt32LE(4), output.length - 8);
+    // VP8X flags no longer announce ICC, EXIF or XMP
+    assert.equal(output.toString("latin1", 12, 16), "VP8X");
+    assert.equal(output[20] & (0x20 | 0x08 | 0x04), 0);
+
+    const metadata = await sharp(output).metadata();
+    assert.equal(metadata.exif, undefined);
+    assert.equal(metadata.xmp, undefined);
+    await assertSamePixels(output, input);
+  });
+
+  it("keeps the ICC profile only when asked to", async () => {
+    const input = await tagged(true);
+    assert.equal(input[20] & 0x20, 0x20);
+    assert.equal((await strip(input, "image/webp"))[20] & 0x20, 0);
+
+    const output = await strip(input, "image/webp", { keepColorProfile: true });
+
+    assert.ok(!output.includes(SECRET));
+    assert.equal(output[20] & 0x20, 0x20);
+    assert.ok((await sharp(output).metadata()).icc);
+  });
+});
+
+describe("GIF", () => {
+  // Two frames, looping forever
+  const animated = async () => {
+    const frame = (value: number) =>
+      sharp({ create: { width: 2, height: 4, channels: 3, background: { r: value, g: value, b: value } } }).png().toBuffer();
+    return sharp([await frame(0), await frame(255)], { join: { animated: true } }).gif({ loop: 0 }).toBuffer();
+  };
+
+  it("drops comments and keeps the animation", async () => {
+    const gif = await animated();
+    const output = await strip(withGifExtension(gif, gifComment(SECRET)), "image/gif");
+
+    assert.ok(!output.includes(SECRET));
+    assert.ok(output.includes("NETSCAPE2.0"));
+    const metadata = await sharp(output).metadata();
+    assert.equal(metadata.pages, 2);
+    assert.equal(metadata.loop, 0);
+    assert.ok(output.equals(gif));
+  });
+
+  it("rejects truncated files", async () => {
+    const gif = await animated();
+    await assert.rejects(strip(gif.subarray(0, gif.length - 4), "image/gif"), /corrupt or truncated/);
+  });
+});
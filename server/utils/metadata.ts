@@ -0,0 +1,612 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+// Lossless metadata removal: walks the container structure of each format and
+// drops the segments/chunks that carry EXIF, GPS, XMP, IPTC and comments,
+// leaving the compressed image data untouched. The walk streams from the
+// spooled upload, so memory use doesn't grow with the file.
+
+export interface MetadataOptions {
+  keepColorProfile?: boolean; // ICC profile (JPEG APP2, PNG iCCP, WebP ICCP, GIF ICCRGBG1012)
+  keepOrientation?: boolean;  // rewritten as a minimal EXIF block holding only the orientation tag
+}
+
+const CORRUPT_IMAGE = "Image file is corrupt or truncated";
+
+// METADATA_KEEP is a comma separated list: "icc", "orientation". Unset, it
+// keeps the orientation: it reveals nothing, and without it phone photos
+// taken upright show sideways.
+export function getMetadataOptions(): MetadataOptions {
+  const keep = (process.env.METADATA_KEEP ?? "orientation")
+    .split(",")
+    .map((value) => value.trim().toLowerCase());
+
+  return {
+    keepColorProfile: keep.includes("icc"),
+    keepOrientation: keep.includes("orientation"),
+  };
+}
+
+// The stripped image: its exact size and SHA-256, and a fresh stream of it per call
+export interface StrippedImage {
+  size: number;
+  sha256: string; // hex
+  open(): Readable;
+}
+
+// Learned by the first pass over the file, used by the second
+interface StripPlan {
+  size?: number;  // output size, unknown while measuring
+  webpFlags: number; // VP8X flags for the chunks that were kept
+}
+
+// Larger metadata blocks are only read this far when looking for the orientation
+const MAX_METADATA_READ = 64 * 1024;
+// Output is handed on in pieces of about this size rather than per segment
+const OUTPUT_CHUNK_SIZE = 64 * 1024;
+
+// Walks the file once to validate it and measure the output, so corrupt
+// files fail before anything is sent to a provider and the size is known up front
+export async function prepareStrippedImage(
+  filePath: string,
+  mime: string,
+  options: MetadataOptions = {},
+): Promise<StrippedImage> {
+  const plan: StripPlan = { webpFlags: 0 };
+  let size = 0;
+  let hash = createHash("sha256");
+  for await (const chunk of stripFile(filePath, mime, options, plan)) {
+    size += chunk.length;
+    hash.update(chunk);
+  }
+
+  const outputPlan = { ...plan, size };
+  // The WebP header holds the output size and flags, which the first pass only
+  // learns on the way; hash the final bytes instead
+  if (mime === "image/webp") {
+    hash = createHash("sha256");
+    for await (const chunk of stripFile(filePath, mime, options, outputPlan)) {
+      hash.update(chunk);
+    }
+  }
+
+  return {
+    size,
+    sha256: hash.digest("hex"),
+    open: () => Readable.from(coalesce(stripFile(filePath, mime, options, outputPlan))),
+  };
+}
+
+async function* stripFile(filePath: string, mime: string, options: MetadataOptions, plan: StripPlan): AsyncGenerator<Buffer> {
+  const stream = fs.createReadStream(filePath);
+  const reader = new ByteReader(stream);
+  try {
+    switch (mime) {
+      case "image/jpeg":
+      case "image/jpg":
+        yield* stripJpeg(reader, options);
+        break;
+      case "image/png":
+        yield* stripPng(reader, options);
+        break;
+      case "image/webp":
+        yield* stripWebp(reader, options, (await fs.promises.stat(filePath)).size, plan);
+        break;
+      case "image/gif":
+        yield* stripGif(reader, options);
+        break;
+      default:
+        throw new Error(`Cannot strip metadata from ${mime}`);
+    }
+  } catch (error) {
+    // Out-of-bounds reads mean the file doesn't have the structure it claims
+    if (error instanceof RangeError) {
+      throw new Error(CORRUPT_IMAGE);
+    }
+    throw error;
+  } finally {
+    // Trailing data after the end marker is never read
+    stream.destroy();
+  }
+}
+
+// Joins small pieces (GIF sub-block headers, JPEG markers) into larger chunks
+async function* coalesce(pieces: AsyncGenerator<Buffer>): AsyncGenerator<Buffer> {
+  let pending: Buffer[] = [];
+  let length = 0;
+  for await (const piece of pieces) {
+    pending.push(piece);
+    length += piece.length;
+    if (length >= OUTPUT_CHUNK_SIZE) {
+      yield Buffer.concat(pending);
+      pending = [];
+      length = 0;
+    }
+  }
+  if (length > 0) yield Buffer.concat(pending);
+}
+
+// --- Reading ----------------------------------------------------------------
+
+// Pull-based reader over a file stream: the format walkers ask for exactly
+// the bytes they need, and data they pass through is never held in full
+class ByteReader {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private ended = false;
+  private iterator: AsyncIterator<Buffer>;
+
+  constructor(stream: Readable) {
+    this.iterator = stream[Symbol.asyncIterator]();
+  }
+
+  // Pulls from the stream until `length` bytes are buffered; false at end of file
+  private async fill(length: number): Promise<boolean> {
+    while (this.buffered < length) {
+      if (this.ended) return false;
+      const { value, done } = await this.iterator.next();
+      if (done) {
+        this.ended = true;
+        return false;
+      }
+      this.chunks.push(value);
+      this.buffered += value.length;
+    }
+    return true;
+  }
+
+  private take(length: number): Buffer {
+    const all = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks);
+    const rest = all.subarray(length);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.buffered = rest.length;
+    return all.subarray(0, length);
+  }
+
+  // Exactly `length` bytes; a file that ends first is corrupt
+  async read(length: number): Promise<Buffer> {
+    if (!(await this.fill(length))) throw new Error(CORRUPT_IMAGE);
+    return this.take(length);
+  }
+
+  // Whatever is available next (at least one byte), or null at end of file
+  async next(): Promise<Buffer | null> {
+    if (!(await this.fill(1))) return null;
+    return this.take(this.buffered);
+  }
+
+  // Puts bytes back to be read again
+  unread(bytes: Buffer): void {
+    this.chunks.unshift(bytes);
+    this.buffered += bytes.length;
+  }
+
+  // The next `length` bytes, yielded in pieces as they arrive
+  async *pass(length: number): AsyncGenerator<Buffer> {
+    let left = length;
+    while (left > 0) {
+      if (!(await this.fill(1))) throw new Error(CORRUPT_IMAGE);
+      const piece = this.take(Math.min(left, this.buffered));
+      left -= piece.length;
+      yield piece;
+    }
+  }
+
+  async skip(length: number): Promise<void> {
+    for await (const _piece of this.pass(length)) {
+      // Dropped
+    }
+  }
+}
+
+// --- EXIF orientation -------------------------------------------------------
+
+// Reads tag 0x0112 from IFD0 of a TIFF structure ("II*\0" / "MM\0*")
+function readExifOrientation(tiff: Buffer): number | null {
+  if (tiff.length < 8) return null;
+
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+  const le = order === "II";
+  const u16 = (offset: number) => (le ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (le ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  const ifd = u32(4);
+  if (ifd + 2 > tiff.length) return null;
+
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (u16(entry) === 0x0112) {
+      const value = u16(entry + 8);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+
+  return null;
+}
+
+// Big-endian TIFF with a single IFD0 entry: Orientation (SHORT, count 1)
+function buildOrientationTiff(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x0112, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  tiff.writeUInt32BE(0, 22);
+  return tiff;
+}
+
+// Orientation 1 is the default, so there's nothing worth keeping
+function keptOrientation(tiff: Buffer, options: MetadataOptions): number | null {
+  if (!options.keepOrientation) return null;
+  const orientation = readExifOrientation(tiff);
+  return orientation && orientation !== 1 ? orientation : null;
+}
+
+// --- JPEG -------------------------------------------------------------------
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function keepJpegSegment(marker: number, payload: Buffer, options: MetadataOptions): boolean {
+  // APP0 (JFIF) and APP14 (Adobe colour transform) are needed to decode correctly
+  if (marker === 0xe0) return payload.toString("latin1", 0, 5) === "JFIF\0";
+  if (marker === 0xee) return payload.toString("latin1", 0, 5) === "Adobe";
+  if (marker === 0xe2) return !!options.keepColorProfile && payload.toString("latin1", 0, 12) === "ICC_PROFILE\0";
+  // Remaining APPn (EXIF, XMP, IPTC/Photoshop, maker data) and COM
+  if ((marker >= 0xe1 && marker <= 0xef) || marker === 0xfe) return false;
+  return true;
+}
+
+// Entropy-coded scan data runs until the next real marker: 0xFF followed by
+// anything but a stuffed 0x00 or a restart marker
+function findJpegMarker(piece: Buffer): number {
+  let index = piece.indexOf(0xff);
+  while (index !== -1 && index + 1 < piece.length) {
+    const next = piece[index + 1];
+    if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) return index;
+    index = piece.indexOf(0xff, index + 1);
+  }
+  return index;
+}
+
+// Copies scan data up to (not including) the marker that ends it
+async function* passJpegScan(reader: ByteReader): AsyncGenerator<Buffer> {
+  while (true) {
+    const piece = await reader.next();
+    if (!piece) throw new Error(CORRUPT_IMAGE);
+
+    const index = findJpegMarker(piece);
+    if (index === -1) {
+      yield piece;
+    } else if (index + 1 < piece.length) {
+      if (index > 0) yield piece.subarray(0, index);
+      reader.unread(piece.subarray(index));
+      return;
+    } else {
+      // A trailing 0xFF needs the next byte to tell what it is
+      if (index > 0) yield piece.subarray(0, index);
+      const more = await reader.next();
+      if (!more) throw new Error(CORRUPT_IMAGE);
+      reader.unread(Buffer.concat([piece.subarray(index), more]));
+    }
+  }
+}
+
+async function* stripJpeg(reader: ByteReader, options: MetadataOptions): AsyncGenerator<Buffer> {
+  const start = await reader.read(2);
+  if (start.readUInt16BE(0) !== 0xffd8) {
+    throw new Error(CORRUPT_IMAGE);
+  }
+  yield start;
+
+  while (true) {
+    const head = await reader.read(2);
+    if (head[0] !== 0xff) throw new Error(CORRUPT_IMAGE);
+
+    const marker = head[1];
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      reader.unread(head.subarray(1));
+      continue;
+    }
+
+    // End of image; anything after it (vendor trailers) is dropped
+    if (marker === 0xd9) {
+      yield head;
+      return;
+    }
+
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      yield head;
+      continue;
+    }
+
+    const lengthField = await reader.read(2);
+    const length = lengthField.readUInt16BE(0);
+    if (length < 2) throw new Error(CORRUPT_IMAGE);
+    // At most 64KB, the largest a segment can be
+    const payload = await reader.read(length - 2);
+
+    if (marker === 0xda) {
+      // Start of scan: copy the header and entropy-coded data up to the next real marker
+      yield Buffer.concat([head, lengthField, payload]);
+      yield* passJpegScan(reader);
+      continue;
+    }
+
+    if (marker === 0xe1 && payload.subarray(0, 6).equals(EXIF_HEADER)) {
+      const orientation = keptOrientation(payload.subarray(6), options);
+      if (orientation) {
+        yield jpegSegment(0xe1, Buffer.concat([EXIF_HEADER, buildOrientationTiff(orientation)]));
+      }
+    } else if (keepJpegSegment(marker, payload, options)) {
+      yield Buffer.concat([head, lengthField, payload]);
+    }
+  }
+}
+
+// --- PNG --------------------------------------------------------------------
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Chunks needed to render the image; everything else (tEXt, zTXt, iTXt, eXIf,
+// tIME and private chunks) is dropped
+const PNG_RENDER_CHUNKS = new Set([
+  "IHDR", "PLTE", "IDAT", "IEND", "tRNS", "cHRM", "gAMA", "sBIT", "sRGB",
+  "cICP", "mDCv", "cLLi", "bKGD", "hIST", "pHYs", "sPLT", "acTL", "fcTL", "fdAT",
+]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+async function* stripPng(reader: ByteReader, options: MetadataOptions): AsyncGenerator<Buffer> {
+  if (!(await reader.read(8)).equals(PNG_SIGNATURE)) {
+    throw new Error(CORRUPT_IMAGE);
+  }
+  yield PNG_SIGNATURE;
+
+  while (true) {
+    const header = await reader.read(8);
+    const length = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+
+    // Data plus the 4-byte CRC
+    if (PNG_RENDER_CHUNKS.has(type) || (type === "iCCP" && options.keepColorProfile)) {
+      yield header;
+      yield* reader.pass(length + 4);
+    } else if (type === "eXIf") {
+      const data = await reader.read(Math.min(length, MAX_METADATA_READ));
+      await reader.skip(length - data.length + 4);
+      const orientation = keptOrientation(data, options);
+      if (orientation) {
+        yield pngChunk("eXIf", buildOrientationTiff(orientation));
+      }
+    } else {
+      await reader.skip(length + 4);
+    }
+
+    if (type === "IEND") return;
+  }
+}
+
+// --- WebP -------------------------------------------------------------------
+
+const VP8X_ICC = 0x20;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+function riffChunkHeader(fourcc: string, size: number): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(fourcc, 0, "latin1");
+  header.writeUInt32LE(size, 4);
+  return header;
+}
+
+function riffChunk(fourcc: string, data: Buffer): Buffer {
+  const header = riffChunkHeader(fourcc, data.length);
+  return Buffer.concat(data.length % 2 ? [header, data, Buffer.alloc(1)] : [header, data]);
+}
+
+// The RIFF header holds the output size and VP8X (the first chunk) flags the
+// metadata that follows, so both come from the plan of the measuring pass
+async function* stripWebp(
+  reader: ByteReader,
+  options: MetadataOptions,
+  fileSize: number,
+  plan: StripPlan,
+): AsyncGenerator<Buffer> {
+  const riffHeader = await reader.read(12);
+  if (riffHeader.toString("latin1", 0, 4) !== "RIFF" || riffHeader.toString("latin1", 8, 12) !== "WEBP") {
+    throw new Error(CORRUPT_IMAGE);
+  }
+
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(plan.size !== undefined ? plan.size - 8 : 0, 4);
+  header.write("WEBP", 8, "latin1");
+  yield header;
+
+  const riffEnd = Math.min(fileSize, 8 + riffHeader.readUInt32LE(4));
+  let offset = 12;
+
+  while (offset + 8 <= riffEnd) {
+    const chunkHeader = await reader.read(8);
+    const fourcc = chunkHeader.toString("latin1", 0, 4);
+    const size = chunkHeader.readUInt32LE(4);
+    const dataEnd = offset + 8 + size;
+    if (dataEnd > riffEnd) throw new Error(CORRUPT_IMAGE);
+
+    switch (fourcc) {
+      case "VP8X": {
+        if (size > MAX_METADATA_READ) throw new Error(CORRUPT_IMAGE);
+        // Copied so the metadata flags can be rewritten
+        const data = Buffer.from(await reader.read(size));
+        data[0] = (data[0] & ~(VP8X_ICC | VP8X_EXIF | VP8X_XMP)) | plan.webpFlags;
+        yield riffChunk(fourcc, data);
+        break;
+      }
+      case "ICCP":
+        if (options.keepColorProfile) {
+          yield chunkHeader;
+          yield* reader.pass(size);
+          if (size % 2) yield Buffer.alloc(1);
+          plan.webpFlags |= VP8X_ICC;
+        } else {
+          await reader.skip(size);
+        }
+        break;
+      case "EXIF": {
+        const data = await reader.read(Math.min(size, MAX_METADATA_READ));
+        await reader.skip(size - data.length);
+        // Some encoders keep the "Exif\0\0" prefix from JPEG
+        const tiff = data.subarray(0, 6).equals(EXIF_HEADER) ? data.subarray(6) : data;
+        const orientation = keptOrientation(tiff, options);
+        if (orientation) {
+          yield riffChunk(fourcc, buildOrientationTiff(orientation));
+          plan.webpFlags |= VP8X_EXIF;
+        }
+        break;
+      }
+      case "VP8 ":
+      case "VP8L":
+      case "ALPH":
+      case "ANIM":
+      case "ANMF":
+        yield chunkHeader;
+        yield* reader.pass(size);
+        if (size % 2) yield Buffer.alloc(1);
+        break;
+      default:
+        // XMP and unknown chunks
+        await reader.skip(size);
+        break;
+    }
+
+    offset = dataEnd;
+    // Padding byte after odd-sized chunks, when the file has one
+    if (size % 2 && offset < riffEnd) {
+      await reader.skip(1);
+      offset++;
+    }
+  }
+}
+
+// --- GIF --------------------------------------------------------------------
+
+// Passes a run of data sub-blocks through, up to and including the 0 block
+async function* passSubBlocks(reader: ByteReader): AsyncGenerator<Buffer> {
+  while (true) {
+    const size = await reader.read(1);
+    yield size;
+    if (size[0] === 0) return;
+    yield* reader.pass(size[0]);
+  }
+}
+
+async function skipSubBlocks(reader: ByteReader): Promise<void> {
+  for await (const _piece of passSubBlocks(reader)) {
+    // Dropped
+  }
+}
+
+async function* stripGif(reader: ByteReader, options: MetadataOptions): AsyncGenerator<Buffer> {
+  const header = await reader.read(13);
+  const signature = header.toString("latin1", 0, 6);
+  if (signature !== "GIF87a" && signature !== "GIF89a") {
+    throw new Error(CORRUPT_IMAGE);
+  }
+
+  const packed = header[10];
+  yield header;
+  // Global colour table
+  yield* reader.pass(packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+
+  while (true) {
+    const introducer = (await reader.read(1))[0];
+
+    if (introducer === 0x3b) {
+      // Trailer; data after it is dropped
+      yield Buffer.from([0x3b]);
+      return;
+    }
+
+    if (introducer === 0x2c) {
+      // Image descriptor, optional local colour table, LZW code size, image data
+      const descriptor = await reader.read(9);
+      const localPacked = descriptor[8];
+      const tableSize = localPacked & 0x80 ? 3 * 2 ** ((localPacked & 0x07) + 1) : 0;
+      yield Buffer.concat([Buffer.from([0x2c]), descriptor]);
+      yield* reader.pass(tableSize + 1);
+      yield* passSubBlocks(reader);
+      continue;
+    }
+
+    if (introducer !== 0x21) throw new Error(CORRUPT_IMAGE);
+
+    const label = (await reader.read(1))[0];
+    // An application extension's identifier is in its first sub-block
+    const firstSize = await reader.read(1);
+    const first = await reader.read(firstSize[0]);
+    let keep = label === 0xf9 || label === 0x01; // graphic control, plain text
+
+    if (label === 0xff) {
+      // Application extension: keep looping info, and the ICC profile when asked to
+      const identifier = first.toString("latin1", 0, 11);
+      keep = identifier === "NETSCAPE2.0" || identifier === "ANIMEXTS1.0"
+        || (identifier === "ICCRGBG1012" && !!options.keepColorProfile);
+    }
+
+    // Comment (0xfe), XMP and other application extensions are dropped
+    if (keep) {
+      yield Buffer.from([0x21, label]);
+      yield firstSize;
+      yield first;
+      if (firstSize[0] !== 0) yield* passSubBlocks(reader);
+    } else if (firstSize[0] !== 0) {
+      await skipSubBlocks(reader);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import fs from "fs";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { createTempFilePath, removeTempFile } from "./temp-files.js";
+
+// Server-side fetch for uploads by URL. Everything the remote controls is
+// bounded: body size, total time and redirects. Addresses are checked at
+// connect time, so a hostname can't resolve to a public IP for the check
+// and a private one for the request (DNS rebinding).
+
+export interface RemoteFetchOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+  allowPrivate?: boolean; // only for local testing
+}
+
+// Spooled to a temp file that the caller removes
+export interface RemoteFile {
+  filePath: string;
+  filename: string;
+  contentType: string;
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges too
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+const REMOTE_BLOCKED = "URL points to a private or reserved address";
+
+// dns.lookup replacement that refuses private results; http uses whatever it returns
+function createSafeLookup(allowPrivate: boolean): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, "", 0);
+
+      const usable = addresses.filter((entry) => allowPrivate || !isPrivateAddress(entry.address));
+      if (usable.length === 0) {
+        return callback(new Error(REMOTE_BLOCKED), "", 0);
+      }
+
+      if (options.all) {
+        return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, usable);
+      }
+      callback(null, usable[0].address, usable[0].family);
+    });
+  };
+}
+
+function filenameFromUrl(url: URL): string {
+  let name: string;
+  try {
+    name = path.posix.basename(decodeURIComponent(url.pathname));
+  } catch {
+    name = path.posix.basename(url.pathname);
+  }
+  return name ? name.slice(0, 255) : "remote-image";
+}
+
+export function parseRemoteUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Enter a valid URL");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https URLs can be uploaded");
+  }
+  if (url.username || url.password) {
+    throw new Error("URLs with credentials are not supported");
+  }
+  return url;
+}
+
+// One request, no redirect following, writing the body to `filePath`.
+// Resolves with the redirect target when there is one.
+function requestOnce(
+  url: URL,
+  options: RemoteFetchOptions,
+  signal: AbortSignal,
+  filePath: string,
+): Promise<{ redirect: string } | RemoteFile> {
+  return new Promise((resolve, reject) => {
+    // IP literals skip the lookup function entirely, so check them here
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && !options.allowPrivate && isPrivateAddress(host)) {
+      return reject(new Error(REMOTE_BLOCKED));
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(url, {
+      lookup: createSafeLookup(!!options.allowPrivate),
+      signal,
+      headers: {
+        "User-Agent": "PicLink/1.0 (+remote upload)",
+        Accept: "image/*",
+      },
+    }, (res) => {
+      const status = res.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        return resolve({ redirect: res.headers.location });
+      }
+
+      if (status < 200 || status >= 300) {
+        res.resume();
+        return reject(new Error(`Remote server responded with ${status}`));
+      }
+
+      const contentType = (res.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+      if (contentType && !contentType.startsWith("image/") && contentType !== "application/octet-stream") {
+        res.resume();
+        return reject(new Error("URL does not point to an image"));
+      }
+
+      const tooLarge = new Error(`Remote image is larger than ${Math.round(options.maxBytes / (1024 * 1024))}MB`);
+      const declaredLength = Number(res.headers["content-length"]);
+      if (declaredLength > options.maxBytes) {
+        res.destroy();
+        return reject(tooLarge);
+      }
+
+      // Content-Length can lie or be missing, so count while writing
+      let received = 0;
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          callback(received > options.maxBytes ? tooLarge : null, chunk);
+        },
+      });
+
+      pipeline(res, counter, fs.createWriteStream(filePath))
+        .then(() => resolve({ filePath, filename: filenameFromUrl(url), contentType }))
+        // Otherwise the connection dropped mid-body
+        .catch((error) => reject(error === tooLarge ? error : new Error("Remote server closed the connection")));
+    });
+
+    req.on("error", (error) => {
+      reject(error.message === REMOTE_BLOCKED ? error : new Error(`Could not fetch URL: ${error.message}`));
+    });
+  });
+}
+
+export async function fetchRemoteImage(value: string, options: RemoteFetchOptions): Promise<RemoteFile> {
+  // One deadline for the whole exchange, redirects included
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  const filePath = await createTempFilePath();
+
+  try {
+    let url = parseRemoteUrl(value);
+    for (let redirects = 0; ; redirects++) {
+      const result = await requestOnce(url, options, controller.signal, filePath);
+      if (!("redirect" in result)) {
+        return result;
+      }
+
+      if (redirects >= options.maxRedirects) {
+        throw new Error(`Too many redirects (more than ${options.maxRedirects})`);
+      }
+      url = parseRemoteUrl(new URL(result.redirect, url).toString());
+    }
+  } catch (error) {
+    await removeTempFile(filePath);
+    if (controller.signal.aborted) {
+      throw new Error(`Remote server did not respond within ${options.timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// REMOTE_UPLOAD_ALLOW_PRIVATE=true lets tests fetch from a local server; never set it in production
+export function getRemoteFetchOptions(maxBytes: number): RemoteFetchOptions {
+  return {
+    maxBytes,
+    timeoutMs: 10 * 1000,
+    maxRedirects: 3,
+    allowPrivate: process.env.REMOTE_UPLOAD_ALLOW_PRIVATE === "true",
+  };
+}
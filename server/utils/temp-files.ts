@@ -0,0 +1,40 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+
+// Uploads are spooled here (multipart bodies, URL fetches, resumable chunks)
+// so only a small window of each file is ever held in memory
+export function getUploadTempDir(): string {
+  return process.env.UPLOAD_TEMP_DIR || path.join(os.tmpdir(), "piclink-uploads");
+}
+
+export function createTempFileName(extension = ".upload"): string {
+  return `${randomBytes(16).toString("hex")}${extension}`;
+}
+
+// A fresh path in the temp dir, which is created if needed; the file itself isn't
+export async function createTempFilePath(extension = ".upload"): Promise<string> {
+  const dir = getUploadTempDir();
+  await fs.promises.mkdir(dir, { recursive: true });
+  return path.join(dir, createTempFileName(extension));
+}
+
+export async function removeTempFile(filePath: string | undefined): Promise<void> {
+  if (!filePath) return;
+  await fs.promises.rm(filePath, { force: true }).catch((error) => {
+    console.error("Could not remove temp file:", error);
+  });
+}
+
+// First `length` bytes of a file (fewer if it's shorter), for type sniffing
+export async function readFileHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
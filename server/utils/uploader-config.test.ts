@@ -0,0 +1,144 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile, execFileSync } from "child_process";
+import { promisify } from "util";
+import { type AddressInfo } from "net";
+import { uploadResponseSchema } from "@shared/schema";
+import { generateShareXConfig, generateFlameshotScript } from "./uploader-config.js";
+
+const BASE_URL = "https://pics.example.com";
+const API_KEY = "pk_test_0123456789";
+
+// {json:field} placeholders must name fields the upload response has
+function assertResponseField(placeholder: unknown, field: string) {
+  assert.equal(placeholder, `{json:${field}}`);
+  assert.ok(field in uploadResponseSchema.shape || field === "message", field);
+}
+
+describe("generateShareXConfig", () => {
+  it("posts the image as a multipart upload to /api/upload", () => {
+    const config = generateShareXConfig({ baseUrl: BASE_URL, link: "raw" }) as Record<string, unknown>;
+
+    assert.equal(config.Name, "PicLink (pics.example.com)");
+    assert.equal(config.DestinationType, "ImageUploader");
+    assert.equal(config.RequestMethod, "POST");
+    assert.equal(config.RequestURL, `${BASE_URL}/api/upload`);
+    assert.equal(config.Body, "MultipartFormData");
+    assert.equal(config.FileFormName, "image");
+    assert.equal(config.Headers, undefined);
+  });
+
+  it("sends the API key as a bearer token", () => {
+    const config = generateShareXConfig({ baseUrl: BASE_URL, apiKey: API_KEY, link: "raw" }) as Record<string, unknown>;
+    assert.deepEqual(config.Headers, { Authorization: `Bearer ${API_KEY}` });
+  });
+
+  it("copies the chosen link and keeps the other one as the thumbnail", () => {
+    const raw = generateShareXConfig({ baseUrl: BASE_URL, link: "raw" }) as Record<string, unknown>;
+    assertResponseField(raw.URL, "rawUrl");
+    assertResponseField(raw.ThumbnailURL, "shortUrl");
+    assertResponseField(raw.DeletionURL, "deleteUrl");
+    assertResponseField(raw.ErrorMessage, "message");
+
+    const short = generateShareXConfig({ baseUrl: BASE_URL, link: "short" }) as Record<string, unknown>;
+    assertResponseField(short.URL, "shortUrl");
+    assertResponseField(short.ThumbnailURL, "rawUrl");
+  });
+});
+
+// The script is run for real against a local server with a file to upload,
+// which skips the capture; it needs curl and jq like it says
+const hasTools = ["curl", "jq"].every((tool) => {
+  try {
+    execFileSync("sh", ["-c", `command -v ${tool}`]);
+    return true;
+  } catch {
+    return false;
+  }
+});
+
+describe("generateFlameshotScript", () => {
+  const run = promisify(execFile);
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let lastRequest: { url?: string; authorization?: string; body: string };
+
+  before(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "uploader-config-test-"));
+    fs.writeFileSync(path.join(tempDir, "shot.png"), "screenshot bytes");
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        lastRequest = { url: req.url, authorization: req.headers.authorization, body: Buffer.concat(chunks).toString() };
+        if (req.headers.authorization === "Bearer revoked") {
+          res.writeHead(401, { "Content-Type": "application/json" });
+          return res.end(JSON.stringify({ message: "Invalid API key" }));
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+          rawUrl: `${baseUrl}/raw/abc`,
+          shortUrl: `${baseUrl}/i/abc`,
+          deleteUrl: `${baseUrl}/api/images/abc?token=t`,
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // PATH without notify-send, wl-copy or xclip, so nothing outside the test is touched
+  const runScript = (script: string) => {
+    const file = path.join(tempDir, "upload.sh");
+    fs.writeFileSync(file, script);
+    const bin = path.join(tempDir, "bin");
+    fs.mkdirSync(bin, { recursive: true });
+    for (const tool of ["curl", "jq", "mktemp", "rm"]) {
+      const target = execFileSync("sh", ["-c", `command -v ${tool}`]).toString().trim();
+      fs.rmSync(path.join(bin, tool), { force: true });
+      fs.symlinkSync(target, path.join(bin, tool));
+    }
+    return run("/bin/sh", [file, path.join(tempDir, "shot.png")], { env: { PATH: bin } });
+  };
+
+  it("is valid sh whatever the base URL holds", () => {
+    const script = generateFlameshotScript({ baseUrl: "https://x.example/'; rm -rf ~; '\nrm", link: "raw" });
+    execFileSync("sh", ["-n", "-c", script]);
+    assert.ok(script.includes(`PICLINK_URL='https://x.example/'\\''; rm -rf ~; '\\''\nrm'`));
+  });
+
+  it("uploads the file with the API key and prints the chosen link", { skip: !hasTools && "needs curl and jq" }, async () => {
+    const { stdout } = await runScript(generateFlameshotScript({ baseUrl, apiKey: API_KEY, link: "short" }));
+
+    assert.equal(lastRequest.url, "/api/upload");
+    assert.equal(lastRequest.authorization, `Bearer ${API_KEY}`);
+    assert.match(lastRequest.body, /Content-Disposition: form-data; name="image"; filename="shot.png"/);
+    assert.ok(lastRequest.body.includes("screenshot bytes"));
+    assert.equal(stdout, `${baseUrl}/i/abc\nDelete: ${baseUrl}/api/images/abc?token=t\n`);
+  });
+
+  it("uploads anonymously without a key", { skip: !hasTools && "needs curl and jq" }, async () => {
+    const { stdout } = await runScript(generateFlameshotScript({ baseUrl, link: "raw" }));
+
+    assert.equal(lastRequest.authorization, undefined);
+    assert.equal(stdout.split("\n")[0], `${baseUrl}/raw/abc`);
+  });
+
+  it("fails with the server's message", { skip: !hasTools && "needs curl and jq" }, async () => {
+    await assert.rejects(
+      runScript(generateFlameshotScript({ baseUrl, apiKey: "revoked", link: "raw" })),
+      (error: { code: number; stderr: string }) => error.code === 1 && error.stderr === "Invalid API key\n",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+// Custom uploader configs for desktop screenshot tools, pointed at this
+// instance's /api/upload and optionally carrying an API key.
+
+export const uploaderTools = ["sharex", "flameshot"] as const;
+export type UploaderTool = typeof uploaderTools[number];
+
+// Which link the tool should copy after an upload
+export const uploaderLinks = ["raw", "short"] as const;
+export type UploaderLink = typeof uploaderLinks[number];
+
+export interface UploaderConfigOptions {
+  baseUrl: string;
+  apiKey?: string; // omitted for anonymous uploads
+  link: UploaderLink;
+}
+
+const LINK_FIELDS: Record<UploaderLink, "rawUrl" | "shortUrl"> = {
+  raw: "rawUrl",
+  short: "shortUrl",
+};
+
+// ShareX custom uploader (.sxcu). The other link goes in ThumbnailURL, the
+// only spare URL slot ShareX has, so both are one click away in its history.
+export function generateShareXConfig({ baseUrl, apiKey, link }: UploaderConfigOptions): object {
+  const other = link === "raw" ? "short" : "raw";
+
+  return {
+    Version: "15.0.0",
+    Name: `PicLink (${new URL(baseUrl).host})`,
+    DestinationType: "ImageUploader",
+    RequestMethod: "POST",
+    RequestURL: `${baseUrl}/api/upload`,
+    ...(apiKey && { Headers: { Authorization: `Bearer ${apiKey}` } }),
+    Body: "MultipartFormData",
+    FileFormName: "image",
+    URL: `{json:${LINK_FIELDS[link]}}`,
+    ThumbnailURL: `{json:${LINK_FIELDS[other]}}`,
+    DeletionURL: "{json:deleteUrl}",
+    ErrorMessage: "{json:message}",
+  };
+}
+
+// Single-quoted for sh; the base URL comes from the Host header, so it can't be trusted
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Flameshot has no uploader settings of its own, so this is a script that
+// captures with `flameshot gui --raw`, uploads and copies the link
+export function generateFlameshotScript({ baseUrl, apiKey, link }: UploaderConfigOptions): string {
+  return `#!/bin/sh
+# PicLink uploader for Flameshot, generated for ${baseUrl.replace(/[\r\n]/g, "")}
+# Needs curl and jq. Copies the link with wl-copy or xclip and shows it with
+# notify-send when those are installed. Bind it to a hotkey, or pass a file
+# to upload instead of taking a screenshot.
+set -eu
+
+PICLINK_URL=${shellQuote(baseUrl)}
+PICLINK_API_KEY=${shellQuote(apiKey ?? "")}
+# rawUrl or shortUrl
+PICLINK_LINK=${shellQuote(LINK_FIELDS[link])}
+
+if [ $# -gt 0 ]; then
+  file="$1"
+else
+  file=$(mktemp --suffix=.png)
+  trap 'rm -f "$file"' EXIT
+  flameshot gui --raw > "$file"
+  # Cancelled capture
+  [ -s "$file" ] || exit 0
+fi
+
+if [ -n "$PICLINK_API_KEY" ]; then
+  response=$(curl -sS -H "Authorization: Bearer $PICLINK_API_KEY" -F "image=@$file" "$PICLINK_URL/api/upload")
+else
+  response=$(curl -sS -F "image=@$file" "$PICLINK_URL/api/upload")
+fi
+
+url=$(printf '%s' "$response" | jq -r --arg field "$PICLINK_LINK" '.[$field] // empty')
+if [ -z "$url" ]; then
+  message=$(printf '%s' "$response" | jq -r '.message // "Upload failed"' 2>/dev/null || echo "Upload failed")
+  echo "$message" >&2
+  command -v notify-send >/dev/null && notify-send "PicLink" "$message"
+  exit 1
+fi
+delete_url=$(printf '%s' "$response" | jq -r '.deleteUrl')
+
+if command -v wl-copy >/dev/null; then
+  printf '%s' "$url" | wl-copy
+elif command -v xclip >/dev/null; then
+  printf '%s' "$url" | xclip -selection clipboard
+fi
+command -v notify-send >/dev/null && notify-send "PicLink" "$url"
+
+echo "$url"
+echo "Delete: $delete_url"
+`;
+}
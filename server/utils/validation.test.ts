@@ -0,0 +1,70 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { sniffImageType } from "./validation.js";
+
+// A PNG chunk; file-type doesn't check the CRC
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+}
+
+describe("sniffImageType", () => {
+  const images: Record<string, Buffer> = {};
+  let apng: Buffer;
+
+  before(async () => {
+    const base = sharp({ create: { width: 8, height: 8, channels: 3, background: "#3080c0" } });
+    images["image/png"] = await base.clone().png().toBuffer();
+    images["image/jpeg"] = await base.clone().jpeg().toBuffer();
+    images["image/webp"] = await base.clone().webp().toBuffer();
+    images["image/gif"] = await base.clone().gif().toBuffer();
+
+    // An animation control chunk ahead of the image data makes it an APNG
+    const png = images["image/png"];
+    const ihdrEnd = 8 + 25;
+    const actl = chunk("acTL", Buffer.from([0, 0, 0, 1, 0, 0, 0, 0]));
+    apng = Buffer.concat([png.subarray(0, ihdrEnd), actl, png.subarray(ihdrEnd)]);
+  });
+
+  it("detects each supported type from its bytes", async () => {
+    for (const [mime, buffer] of Object.entries(images)) {
+      assert.equal(await sniffImageType(buffer, mime), mime);
+    }
+  });
+
+  it("trusts the bytes when the browser sends no useful type", async () => {
+    assert.equal(await sniffImageType(images["image/webp"]), "image/webp");
+    assert.equal(await sniffImageType(images["image/webp"], "application/octet-stream"), "image/webp");
+  });
+
+  it("accepts the other names for allowed types", async () => {
+    assert.equal(await sniffImageType(images["image/jpeg"], "image/jpg"), "image/jpeg");
+    assert.equal(await sniffImageType(apng, "image/apng"), "image/png");
+    assert.equal(await sniffImageType(apng, "image/png"), "image/png");
+  });
+
+  it("rejects images labelled as another image type", async () => {
+    await assert.rejects(
+      sniffImageType(images["image/png"], "image/jpeg"),
+      /File content \(image\/png\) does not match its declared type \(image\/jpeg\)/,
+    );
+    await assert.rejects(sniffImageType(images["image/gif"], "image/webp"), /does not match/);
+  });
+
+  it("rejects files that aren't a supported image, whatever they claim to be", async () => {
+    const html = Buffer.from("<!doctype html><script>alert(1)</script>");
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+    const pdf = Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\n");
+    const tiff = await sharp(images["image/png"]).tiff().toBuffer();
+
+    for (const buffer of [html, svg, pdf, tiff, Buffer.alloc(0)]) {
+      await assert.rejects(sniffImageType(buffer, "image/png"), /not a supported image/);
+    }
+  });
+
+  it("rejects a truncated signature", async () => {
+    await assert.rejects(sniffImageType(images["image/png"].subarray(0, 4), "image/png"), /not a supported image/);
+  });
+});
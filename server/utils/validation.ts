@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { fileTypeFromBuffer } from "file-type";
+import { viewLimitSchema } from "@shared/schema";
 
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 export const ALLOWED_MIME_TYPES = [
@@ -7,6 +9,7 @@ export const ALLOWED_MIME_TYPES = [
   "image/jpg",
   "image/webp",
   "image/gif",
+  "image/apng",
 ];
 
 export const fileValidationSchema = z.object({
@@ -21,6 +24,38 @@ export function validateFile(file: { size: number; type: string }) {
   return fileValidationSchema.parse(file);
 }
 
+// Types browsers send when they don't know better; these skip the mismatch check
+const GENERIC_MIME_TYPES = ["", "application/octet-stream"];
+
+// Other names for allowed types: animated PNGs are stored and served as PNG
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/apng": "image/png",
+};
+
+const normalizeMime = (mime: string): string => MIME_ALIASES[mime] ?? mime;
+
+// How much of the start of a file sniffImageType needs
+export const SNIFF_BYTES = 4100;
+
+// Detects the real type from the file's magic bytes. The client-declared type
+// is never trusted, only cross-checked so relabelled files are rejected.
+export async function sniffImageType(buffer: Buffer, declaredType = ""): Promise<string> {
+  const sniffed = await fileTypeFromBuffer(buffer);
+  const detected = sniffed && normalizeMime(sniffed.mime);
+
+  if (!detected || !ALLOWED_MIME_TYPES.includes(detected)) {
+    throw new Error("File content is not a supported image. Please use PNG, JPG, JPEG, WebP, or GIF");
+  }
+
+  const declared = normalizeMime(declaredType);
+  if (!GENERIC_MIME_TYPES.includes(declared) && declared !== detected) {
+    throw new Error(`File content (${detected}) does not match its declared type (${declaredType})`);
+  }
+
+  return detected;
+}
+
 export function getFileExtension(mime: string): string {
   const extensions: Record<string, string> = {
     "image/png": "png",
@@ -28,6 +63,18 @@ export function getFileExtension(mime: string): string {
     "image/jpg": "jpg", 
     "image/webp": "webp",
     "image/gif": "gif",
+    "image/avif": "avif",
   };
   return extensions[mime] || "jpg";
 }
+
+// Optional `maxViews` upload field; empty means unlimited
+export function parseViewLimit(value: unknown): number | null {
+  if (value === undefined || value === "") return null;
+
+  const parsed = viewLimitSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(parsed.error.errors[0].message);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,133 @@
+import path from "path";
+import sharp from "sharp";
+import { getFileExtension } from "./validation.js";
+
+// Bounding boxes (px) for the derived sizes served instead of the original
+export const VARIANT_SIZES = {
+  thumb: 200,
+  small: 320,
+  medium: 800,
+  large: 1600,
+} as const;
+
+export type VariantName = keyof typeof VARIANT_SIZES;
+
+export const VARIANT_NAMES = Object.keys(VARIANT_SIZES) as VariantName[];
+
+// Formats /raw can convert to, by their ?format= name
+export const OUTPUT_FORMATS = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  avif: "image/avif",
+} as const;
+
+export type OutputFormat = keyof typeof OUTPUT_FORMATS;
+
+export const OUTPUT_FORMAT_NAMES = Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+
+// A derived copy of an image: resized, converted, or both
+export interface VariantOptions {
+  size?: VariantName;
+  format?: OutputFormat;
+}
+
+// Name a variant is cached under next to its original: <id>.<size or "full">.<ext>
+export function getVariantFilename(filename: string, options: VariantOptions): string {
+  const ext = path.extname(filename);
+  const variantExt = options.format ? `.${getFileExtension(OUTPUT_FORMATS[options.format])}` : ext;
+  return `${path.basename(filename, ext)}.${options.size ?? "full"}${variantExt}`;
+}
+
+// Every variant name an original could have, for deleting them with it
+export function getVariantFilenames(filename: string): string[] {
+  return [undefined, ...VARIANT_NAMES].flatMap((size) =>
+    [undefined, ...OUTPUT_FORMAT_NAMES].flatMap((format) =>
+      size || format ? [getVariantFilename(filename, { size, format })] : [],
+    ),
+  );
+}
+
+// Snaps a requested width to the smallest variant that covers it, so arbitrary
+// ?w= values can't fill the cache with one file per width
+export function variantForWidth(width: number): VariantName {
+  return VARIANT_NAMES.find((name) => VARIANT_SIZES[name] >= width) ?? "large";
+}
+
+// Parses ?w=; returns null when absent, throws on garbage
+export function parseWidthParam(value: unknown): number | null {
+  if (value === undefined) return null;
+
+  const width = Number(value);
+  if (typeof value !== "string" || !Number.isInteger(width) || width < 1 || width > 10000) {
+    throw new Error("Width must be a whole number of pixels");
+  }
+
+  return width;
+}
+
+// Parses ?format=; returns null when absent, throws on anything unsupported
+export function parseFormatParam(value: unknown): OutputFormat | null {
+  if (value === undefined) return null;
+
+  if (typeof value !== "string" || !OUTPUT_FORMAT_NAMES.includes(value as OutputFormat)) {
+    throw new Error(`Format must be one of ${OUTPUT_FORMAT_NAMES.join(", ")}`);
+  }
+
+  return value as OutputFormat;
+}
+
+// Only still photos and screenshots are converted unasked; GIFs keep their animation
+export function canNegotiateFormat(mime: string): boolean {
+  return mime === "image/jpeg" || mime === "image/png";
+}
+
+// Picks the best format the client says it accepts, or null to keep the original
+export function negotiateFormat(accept: string | undefined, mime: string): OutputFormat | null {
+  if (!accept || !canNegotiateFormat(mime)) return null;
+
+  const accepted = accept.split(",").flatMap((part) => {
+    const [type, ...params] = part.trim().toLowerCase().split(";");
+    const rejected = params.some((param) => /^\s*q=0(\.0*)?\s*$/.test(param));
+    return rejected ? [] : [type.trim()];
+  });
+
+  if (accepted.includes(OUTPUT_FORMATS.avif)) return "avif";
+  if (accepted.includes(OUTPUT_FORMATS.webp)) return "webp";
+  return null;
+}
+
+// Mime type a variant is served as
+export function getVariantMime(mime: string, options: VariantOptions): string {
+  return options.format ? OUTPUT_FORMATS[options.format] : mime;
+}
+
+// Resizes within the variant's bounding box and/or converts the format; without
+// a format the original one is kept. Never enlarges; honours any kept EXIF
+// orientation since the output has none.
+export async function renderVariant(input: Buffer, mime: string, options: VariantOptions): Promise<Buffer> {
+  const outputMime = getVariantMime(mime, options);
+  // AVIF and JPEG/PNG have no animation, so only the first frame is kept there
+  const animated = (mime === "image/gif" || mime === "image/webp")
+    && (outputMime === "image/gif" || outputMime === "image/webp");
+
+  let pipeline = sharp(input, { animated }).rotate();
+
+  if (options.size) {
+    const size = VARIANT_SIZES[options.size];
+    pipeline = pipeline.resize(size, size, { fit: "inside", withoutEnlargement: true });
+  }
+
+  switch (outputMime) {
+    case "image/png":
+      return pipeline.png().toBuffer();
+    case "image/webp":
+      return pipeline.webp().toBuffer();
+    case "image/avif":
+      return pipeline.avif().toBuffer();
+    case "image/gif":
+      return pipeline.gif().toBuffer();
+    default:
+      return pipeline.jpeg({ mozjpeg: true }).toBuffer();
+  }
+}
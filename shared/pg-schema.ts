@@ -0,0 +1,75 @@
+import { pgTable, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { imageProviders } from "./schema";
+
+// Postgres version of the tables in ./schema; row types must stay identical
+export const users = pgTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+export const apiKeys = pgTable("api_keys", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").notNull(),
+  uploadLimit: integer("upload_limit").notNull(),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+
+export const albums = pgTable("albums", {
+  id: text("id").primaryKey(),
+  title: text("title"),
+  deleteToken: text("delete_token").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+});
+
+export const images = pgTable("images", {
+  id: text("id").primaryKey(),
+  provider: text("provider", { enum: imageProviders }).notNull(),
+  providerKey: text("provider_key").notNull(),
+  rawUrl: text("raw_url").notNull(),
+  // Mirror copy kept by the replication policy; reads fall back to it (see server/providers/routing.ts)
+  replicaProvider: text("replica_provider", { enum: imageProviders }),
+  replicaKey: text("replica_key"),
+  replicaUrl: text("replica_url"),
+  width: integer("width"),
+  height: integer("height"),
+  mime: text("mime").notNull(),
+  size: integer("size").notNull(), // bytes
+  deleteToken: text("delete_token").notNull(),
+  albumId: text("album_id"),
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // null = kept forever
+  maxViews: integer("max_views"), // null = unlimited
+  views: integer("views").notNull().default(0), // only counted when maxViews is set
+  passwordHash: text("password_hash"), // null = public; see server/utils/password.ts
+  ownerId: text("owner_id"), // null for anonymous uploads
+  sha256: text("sha256"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index("images_album_id_idx").on(table.albumId),
+  index("images_owner_id_idx").on(table.ownerId),
+  index("images_expires_at_idx").on(table.expiresAt),
+]);
+
+export const blobs = pgTable("blobs", {
+  sha256: text("sha256").primaryKey(),
+  provider: text("provider", { enum: imageProviders }).notNull(),
+  providerKey: text("provider_key").notNull(),
+  rawUrl: text("raw_url").notNull(),
+  replicaProvider: text("replica_provider", { enum: imageProviders }),
+  replicaKey: text("replica_key"),
+  replicaUrl: text("replica_url"),
+  width: integer("width"),
+  height: integer("height"),
+  refCount: integer("ref_count").notNull().default(1),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+}, (table) => [
+  index("blobs_provider_key_idx").on(table.provider, table.providerKey),
+]);
@@ -1,20 +1,88 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const imageProviders = ["cloudinary", "local", "s3"] as const;
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+export const apiKeyScopes = ["upload", "delete", "list"] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+// Personal API keys for scripts. Only a SHA-256 of the key is kept; the key
+// itself is shown once when it's created.
+export const apiKeys = sqliteTable("api_keys", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // start of the key, so users can tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").notNull(), // comma-separated ApiKeyScope values
+  uploadLimit: integer("upload_limit").notNull(), // uploads per hour, instead of the per-IP limit
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+
+export const albums = sqliteTable("albums", {
+  id: text("id").primaryKey(),
+  title: text("title"),
+  deleteToken: text("delete_token").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
 export const images = sqliteTable("images", {
   id: text("id").primaryKey(),
-  provider: text("provider", { enum: ["cloudinary", "local"] }).notNull(),
+  provider: text("provider", { enum: imageProviders }).notNull(),
   providerKey: text("provider_key").notNull(),
   rawUrl: text("raw_url").notNull(),
+  // Mirror copy kept by the replication policy; reads fall back to it (see server/providers/routing.ts)
+  replicaProvider: text("replica_provider", { enum: imageProviders }),
+  replicaKey: text("replica_key"),
+  replicaUrl: text("replica_url"),
   width: integer("width"),
   height: integer("height"),
   mime: text("mime").notNull(),
   size: integer("size").notNull(), // bytes
   deleteToken: text("delete_token").notNull(),
+  albumId: text("album_id"),
+  expiresAt: integer("expires_at", { mode: "timestamp" }), // null = kept forever
+  maxViews: integer("max_views"), // null = unlimited
+  views: integer("views").notNull().default(0), // only counted when maxViews is set
+  passwordHash: text("password_hash"), // null = public; see server/utils/password.ts
+  ownerId: text("owner_id"), // null for anonymous uploads
+  sha256: text("sha256"), // of the stored bytes, keys `blobs`; null for uploads from before deduplication
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
-});
+}, (table) => [
+  index("images_album_id_idx").on(table.albumId),
+  index("images_owner_id_idx").on(table.ownerId),
+  index("images_expires_at_idx").on(table.expiresAt),
+]);
+
+// One stored object per distinct content, shared by every image with that
+// SHA-256; the object is deleted along with the last image referencing it
+export const blobs = sqliteTable("blobs", {
+  sha256: text("sha256").primaryKey(),
+  provider: text("provider", { enum: imageProviders }).notNull(),
+  providerKey: text("provider_key").notNull(),
+  rawUrl: text("raw_url").notNull(),
+  replicaProvider: text("replica_provider", { enum: imageProviders }),
+  replicaKey: text("replica_key"),
+  replicaUrl: text("replica_url"),
+  width: integer("width"),
+  height: integer("height"),
+  refCount: integer("ref_count").notNull().default(1), // images pointing at it; 0 once the last has gone, until the stored copies are deleted too
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  index("blobs_provider_key_idx").on(table.provider, table.providerKey),
+]);
 
 export const insertImageSchema = createInsertSchema(images).omit({
   createdAt: true,
@@ -23,6 +91,34 @@ export const insertImageSchema = createInsertSchema(images).omit({
 export type InsertImage = z.infer<typeof insertImageSchema>;
 export type Image = typeof images.$inferSelect;
 
+export const insertImageBlobSchema = createInsertSchema(blobs).omit({
+  createdAt: true,
+});
+
+export type InsertImageBlob = z.infer<typeof insertImageBlobSchema>;
+export type ImageBlob = typeof blobs.$inferSelect;
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  createdAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  createdAt: true,
+});
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export const insertAlbumSchema = createInsertSchema(albums).omit({
+  createdAt: true,
+});
+
+export type InsertAlbum = z.infer<typeof insertAlbumSchema>;
+export type Album = typeof albums.$inferSelect;
+
 export const uploadResponseSchema = z.object({
   id: z.string(),
   rawUrl: z.string(),
@@ -31,6 +127,141 @@ export const uploadResponseSchema = z.object({
   height: z.number().optional(),
   size: z.number(),
   mime: z.string(),
+  deleteToken: z.string(),
+  deleteUrl: z.string(),
+  albumId: z.string().optional(),
+  expiresAt: z.string().nullable(), // ISO timestamp
+  maxViews: z.number().nullable(),
+  passwordProtected: z.boolean(),
 });
 
 export type UploadResponse = z.infer<typeof uploadResponseSchema>;
+
+// How long an upload is kept; the server may cap it (see MAX_EXPIRY)
+export const expiryOptions = ["1h", "1d", "1w", "never"] as const;
+
+export type ExpiryOption = typeof expiryOptions[number];
+
+// Upper bound for an image's view limit
+export const MAX_VIEW_LIMIT = 1000;
+
+export const viewLimitSchema = z.coerce
+  .number({ invalid_type_error: `View limit must be a whole number from 1 to ${MAX_VIEW_LIMIT}` })
+  .int(`View limit must be a whole number from 1 to ${MAX_VIEW_LIMIT}`)
+  .min(1, `View limit must be a whole number from 1 to ${MAX_VIEW_LIMIT}`)
+  .max(MAX_VIEW_LIMIT, `View limit must be a whole number from 1 to ${MAX_VIEW_LIMIT}`);
+
+export const imagePasswordSchema = z
+  .string()
+  .min(1, "Password must not be empty")
+  .max(200, "Password must be at most 200 characters");
+
+// Settings that can be changed after upload with the delete token; null removes
+// the view limit or password
+export const updateImageSchema = z.object({
+  expiresIn: z.enum(expiryOptions, {
+    errorMap: () => ({ message: `Expiry must be one of ${expiryOptions.join(", ")}` }),
+  }).optional(),
+  maxViews: viewLimitSchema.nullable().optional(),
+  password: imagePasswordSchema.nullable().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: "Nothing to update",
+});
+
+export const credentialsSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_-]+$/, "Username may only contain letters, numbers, _ and -")
+    .transform((username) => username.toLowerCase()),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password must be at most 200 characters"),
+});
+
+// What the API reveals about a user
+export const userResponseSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+});
+
+export type UserResponse = z.infer<typeof userResponseSchema>;
+
+// Orders the signed-in user's uploads can be listed in
+export const ownedImageSorts = ["newest", "oldest", "largest", "smallest"] as const;
+export type OwnedImageSort = typeof ownedImageSorts[number];
+
+// One page of the signed-in user's uploads. The delete links are left out
+// for API keys without the "delete" scope.
+export const ownedImagesResponseSchema = z.object({
+  images: z.array(uploadResponseSchema.extend({
+    deleteToken: z.string().optional(),
+    deleteUrl: z.string().optional(),
+    createdAt: z.string().nullable(), // ISO timestamp
+  })),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  sort: z.enum(ownedImageSorts),
+});
+
+export type OwnedImagesResponse = z.infer<typeof ownedImagesResponseSchema>;
+
+export const DEFAULT_API_KEY_UPLOAD_LIMIT = 100; // per hour
+export const MAX_API_KEY_UPLOAD_LIMIT = 1000;
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Give the key a name").max(100),
+  scopes: z
+    .array(z.enum(apiKeyScopes))
+    .min(1, "Pick at least one scope")
+    .transform((scopes) => Array.from(new Set(scopes))),
+  uploadLimit: z
+    .number()
+    .int()
+    .min(1, "Upload limit must be at least 1 per hour")
+    .max(MAX_API_KEY_UPLOAD_LIMIT, `Upload limit can be at most ${MAX_API_KEY_UPLOAD_LIMIT} per hour`)
+    .default(DEFAULT_API_KEY_UPLOAD_LIMIT),
+});
+
+// What the API reveals about a key; never its hash
+export const apiKeyResponseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.enum(apiKeyScopes)),
+  uploadLimit: z.number(),
+  lastUsedAt: z.string().nullable(), // ISO timestamp
+  createdAt: z.string().nullable(), // ISO timestamp
+});
+
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+
+// Only the create response carries the key itself
+export const createdApiKeyResponseSchema = apiKeyResponseSchema.extend({
+  key: z.string(),
+});
+
+export type CreatedApiKeyResponse = z.infer<typeof createdApiKeyResponseSchema>;
+
+// Deletes several of the signed-in user's uploads at once
+export const deleteOwnedImagesSchema = z.object({
+  ids: z.array(z.string()).min(1, "Select at least one image").max(100, "At most 100 images can be deleted at once"),
+});
+
+export const createAlbumSchema = z.object({
+  title: z.string().trim().max(100).optional(),
+});
+
+export const albumResponseSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string().optional(),
+  deleteToken: z.string(),
+  deleteUrl: z.string(),
+});
+
+export type AlbumResponse = z.infer<typeof albumResponseSchema>;